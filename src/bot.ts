@@ -18,33 +18,97 @@
 import Discord from 'discord.js'
 import * as log from './lib/logger'
 import { Routine, Routinable } from './lib/routine'
-import { Group, Groups, Routines, Env } from './lib/state'
-import { CommandProvision } from './lib/access'
-import { help } from './lib/commands'
+import { GATEWAY_STATUSES, HealthReport } from './lib/health'
+import {
+  commandDuration,
+  commandInvocations,
+  commandOutcome,
+  dmFailures,
+  gatewayReconnects,
+  provisions
+} from './lib/metrics'
+import {
+  Group,
+  Groups,
+  Alarms,
+  Routines,
+  Env,
+  Settings,
+  Policies,
+  CommandPolicy,
+  Toggles,
+  Feed,
+  MemberEvent,
+  Pending,
+  PendingProvision,
+  Revocations,
+  RevocationRecord
+} from './lib/state'
+import { CommandProvision, admins, disabled, disabledNotice, policyDenial } from './lib/access'
+import { CommandDefinition, compile, tokenize } from './lib/parser'
+import { RateLimiter, Throttle, cooldownFor } from './lib/ratelimit'
+import { help, permissions } from './lib/commands'
+import { editDistance } from './lib/helpers'
+import { CommandContext, ReplyContent } from './lib/context'
+import { discordContext, discordGuild } from './lib/adapters/discord'
+import {
+  MessageHandle,
+  MessagingError,
+  RelayedContent,
+  channelSetting,
+  apiFailure,
+  decodeHandle,
+  encodeHandle,
+  relayedContent
+} from './lib/messaging'
+import {
+  RoleDiff,
+  ProvisionResult,
+  UserRoleQuery,
+  UserRoleSets,
+  QueryError,
+  applyProvision,
+  failedProvision,
+  isRevokeAll,
+  provisionOutcome,
+  provisionSummary,
+  queryUserRoles,
+  validateDiff
+} from './lib/provisioning'
 import {
   welcomeMessage,
+  guildWelcomeMessage,
   groupsMessage,
   messageDeletedLogMessage,
   messageUpdatedLogMessage,
   commandUseLogMessage,
-  rolesUpdatedLogMessage
+  rolesUpdatedLogMessage,
+  rpcRejectedLogMessage,
+  provisionBatchLogMessage,
+  revocationLogMessage
 } from './lib/messages'
 
 /**
  * Type definition for bot action functions
  * @export
  */
-export type BotAction = (guild: Discord.Guild, msg: Discord.Message, args: string[]) => Promise<string>
+export type BotAction = (ctx: CommandContext, args: string[]) => Promise<string>
 
 /**
- * Type definition for querying for user roles on Discord
+ * Type definition for the registration data of a command added to the bot
  * @export
  */
-export type UserRoleSets = {
-  users: {
-    id: string
-    roles: string[]
-  }[]
+export type CommandRegistration = {
+  definition: CommandDefinition
+  provision?: CommandProvision
+}
+
+/**
+ * Type definition for the command name and arguments parsed from a message
+ */
+type Invocation = {
+  name: string
+  args: string[]
 }
 
 /**
@@ -61,13 +125,18 @@ type Nullable<T> = T | null
  * @static @property {string} VERSION
  * @static @property {number} REQUEST_COUNT
  * @static @property {number} NEW_MEMBER_MESSAGES_SENT
+ * @static @property {number} THROTTLED_COUNT
+ * @static @property {Map<string, number>} UNKNOWN_COMMANDS
  *
- * @private @property {Discord.Guild?} _guild
  * @private @property {CalendarHandler} _calendar
  * @private @property {PollsHandler} _polls
  * @private @property {Discord.Client} _client
- * @private @property {Map<string, string>} _descriptions
+ * @private @property {Map<string, CommandRegistration>} _registry
  * @private @property {Map<string, BotAction>} _commands
+ * @private @property {RateLimiter} _limiter
+ * @private @property {number} _rateLimitedUntil
+ * @private @property {boolean} _stateLoaded
+ * @private @property {string?} _grpcAddress
  * @private @property {ServerInformation?} _currentMission
  * @private @property {Pusher} _pusherClient
  * @private @property {Pusher.Channel} _subscriber
@@ -77,15 +146,28 @@ export class Bot implements Routinable {
   public static VERSION: string
   public static REQUEST_COUNT: number = 0
   public static NEW_MEMBER_MESSAGES_SENT: number = 0
+  public static THROTTLED_COUNT: number = 0
+  public static UNKNOWN_COMMANDS: Map<string, number> = new Map()
+
+  // Number of distinct unknown command names tracked so spam can't grow the map unbounded
+  private static readonly MAX_UNKNOWN_COMMANDS: number = 500
+  // Maximum edit distance of a command name to be suggested for an unknown command
+  private static readonly MAX_SUGGESTION_DISTANCE: number = 2
+  // Milliseconds to wait before looking in the audit logs again for who changed the roles of a member
+  private static readonly AUDIT_LOG_RETRY_MS: number = 2000
+  // Milliseconds before a role change is received that its audit log entry can be from
+  private static readonly AUDIT_LOG_WINDOW_MS: number = 30000
 
   // Bot instance variables
-  private _guild?: Discord.Guild
-  private _logChannel?: Discord.TextChannel
   // private _calendar: CalendarHandler
   // private _polls: PollsHandler
   private _client: Discord.Client
-  private _descriptions: Map<string, string> = new Map()
+  private _registry: Map<string, CommandRegistration> = new Map()
   private _commands: Map<string, BotAction> = new Map()
+  private _limiter: RateLimiter = new RateLimiter(Env.RATE_LIMIT_BURST, Env.RATE_LIMIT_REFILL_SECONDS)
+  private _rateLimitedUntil: number = 0
+  private _stateLoaded: boolean = false
+  private _grpcAddress: string | null = null
   // private _currentMission?: ServerInformation
 
   /**
@@ -98,14 +180,54 @@ export class Bot implements Routinable {
     this._client = new Discord.Client()
     this._client.on('ready', () => {
       log.sys(`Logged in as ${this._client.user.tag} v${Bot.VERSION}`)
-      this._guild = this._client.guilds.find(g => g.id === Env.GUILD_ID)
-      this._logChannel = this._guild.channels.find(c => c.id === Env.LOG_CHANNEL) as Discord.TextChannel
+      for (const id of Env.GUILD_IDS) {
+        if (!this._client.guilds.has(id))
+          log.error(`CONFIG: \`DISCORD_SERVER_ID\` ${id} is not a server the bot is a member of`)
+      }
+
+      // The primary guild is required for the gRPC provisioning handlers
+      if (!this._primaryGuild) process.exit(1)
+
+      // Rehydrate the persisted state stores and their scheduled expiry jobs, then
+      // check that the configured channels and roles exist now that the guilds are known
+      // and apply the provisions of users who joined while the bot was offline
+      Promise.all([
+        Settings.load(),
+        Policies.load(),
+        Toggles.load(),
+        Groups.load(),
+        Alarms.load(),
+        Feed.load(),
+        Pending.load(),
+        Revocations.load()
+      ])
+        .then(() => {
+          this._stateLoaded = true
+          this._guilds.forEach(g =>
+            Settings.verify(discordGuild(g)).forEach(e => log.error(`CONFIG (${g.name}): ${e}`))
+          )
+          for (const { id } of Pending.all()) {
+            const member: Discord.GuildMember | undefined = this._primaryGuild!.members.get(id)
+            if (member) this._applyPending(member).catch(e => log.error(`PENDING_PROVISION ${id}: ${e.message}`))
+          }
+        })
+        .catch(e => log.error(`STATE_LOAD: ${e.message}`))
     })
     this._client.on('message', this._onMessage)
     this._client.on('guildMemberAdd', this._onNewMember)
+    this._client.on('guildMemberRemove', this._onMemberLeave)
+    this._client.on('guildMemberUpdate', this._onMemberUpdate)
     this._client.on('messageDelete', this._logMessageDelete)
     this._client.on('messageUpdate', this._logMessageUpdate)
     this._client.on('error', err => log.error(`CLIENT_ERR ${err.message}`))
+    this._client.on('reconnecting', () => gatewayReconnects.inc())
+    this._client.on('rateLimit', (info: { timeout: number }) => {
+      this._rateLimitedUntil = Math.max(this._rateLimitedUntil, Date.now() + info.timeout)
+    })
+
+    // The help and permissions commands read the registry when they run so they include every command added after them
+    this.addCommand(help(this._registry))
+    this.addCommand(permissions(this._registry), admins)
 
     /** @deprecated as of v4.0.0 */
     // this._calendar = new CalendarHandler(
@@ -120,6 +242,64 @@ export class Bot implements Routinable {
     // )
   }
 
+  /**
+   * The primary guild which the gRPC provisioning handlers operate on
+   * @readonly
+   * @private
+   * @type {(Discord.Guild | undefined)}
+   * @memberof Bot
+   */
+  private get _primaryGuild(): Discord.Guild | undefined {
+    return this._client.guilds.get(Env.GUILD_ID)
+  }
+
+  /**
+   * The configured guilds that the bot is currently a member of
+   * @readonly
+   * @private
+   * @type {Discord.Guild[]}
+   * @memberof Bot
+   */
+  private get _guilds(): Discord.Guild[] {
+    return Env.GUILD_IDS.filter(id => this._client.guilds.has(id)).map(id => this._client.guilds.get(id)!)
+  }
+
+  /**
+   * Resolves the audit log channel of the guild on each use so that changes
+   * to the `LOG_CHANNEL` setting through `!config` apply immediately
+   * @private
+   * @param {Discord.Guild} guild
+   * @returns {(Discord.TextChannel | null)}
+   * @memberof Bot
+   */
+  private _logChannel(guild: Discord.Guild): Nullable<Discord.TextChannel> {
+    const id: string = Env.guild(guild.id).LOG_CHANNEL
+    return guild.channels.find(c => c.id === id) as Nullable<Discord.TextChannel>
+  }
+
+  /**
+   * Returns the guild that a direct message command runs against, which is
+   * the first configured guild that the author is a member of
+   * @private
+   * @param {Discord.User} user
+   * @returns {(Discord.Guild | undefined)}
+   * @memberof Bot
+   */
+  private _guildFor(user: Discord.User): Discord.Guild | undefined {
+    return this._guilds.find(g => g.members.has(user.id))
+  }
+
+  /**
+   * Returns whether the guild is one of the configured guilds
+   * @private
+   * @param {Discord.Guild} guild
+   * @returns {boolean}
+   * @memberof Bot
+   */
+  private _isConfigured(guild: Discord.Guild): boolean {
+    return Env.GUILD_IDS.includes(guild.id)
+  }
+
   /**
    * Wrapper function for the Discord client's login function
    * to initialize and start the chat bot in the Discord server
@@ -128,10 +308,6 @@ export class Bot implements Routinable {
    * @memberof Bot
    */
   async start(token: string) {
-    // Add final help commands to list
-    this._commands.set('?', help(this._descriptions))
-    this._commands.set('help', help(this._descriptions))
-
     try {
       // Login with the Discord client
       await this._client.login(token)
@@ -171,68 +347,236 @@ export class Bot implements Routinable {
 
   /**
    * Adds a new command action to the map under a key
-   * that is the command string for application to the
-   * _onMessage handler at start
-   * @param {string} cmd
-   * @param {string} desc
-   * @param {(Bot, Discord.Message, string[]) => Promise<string>} action
+   * that is the command string, and each of its aliases,
+   * for application to the _onMessage handler at start.
+   * The policy restricts who can run the command and where, and
+   * commands added with the `disabled` provision start disabled.
+   * @param {CommandDefinition} def
    * @param {CommandProvision?} provision
+   * @param {CommandPolicy?} policy
    * @returns {Bot}
    * @memberof Bot
    */
-  addCommand(cmd: string, desc: string, action: BotAction, provision?: CommandProvision): Bot {
-    this._commands.set(cmd, provision ? provision(action) : action)
-    if (provision) desc += ` _**(${provision.name})**_`
-    this._descriptions.set(cmd, desc)
+  addCommand(def: CommandDefinition, provision?: CommandProvision, policy?: CommandPolicy): Bot {
+    const action: BotAction = compile(def)
+    const names: string[] = [def.name, ...(def.aliases || [])]
+
+    for (const name of names) {
+      if (this._commands.has(name)) throw new Error(`the command or alias '${name}' is already registered`)
+    }
+
+    for (const name of names) {
+      this._commands.set(name, provision ? provision(action) : action)
+    }
+
+    this._registry.set(def.name, { definition: def, provision: provision === disabled ? undefined : provision })
+    Policies.declare(def.name, policy)
+    Toggles.declare(def.name, provision === disabled, def.aliases)
     return this
   }
 
   /**
-   * Handler for gRPC call for fetching one or all users' set of role names
-   * currently assigned on the Discord server.
-   * @param {string} [id]
-   * @returns {UserRoleSets}
+   * Records that the gRPC server has been started on the address, for the health checks
+   * @param {string} address
    * @memberof Bot
    */
-  getUserRoles(id?: string): UserRoleSets {
-    // Get a single user's role set
-    if (id) {
-      const roles: string[] = this._guild!.members.find(m => m.id === id).roles.map(r => r.name)
-      return { users: [{ id, roles }] }
+  serving(address: string) {
+    this._grpcAddress = address
+  }
+
+  /**
+   * Handler for the health checks that reports the connection to Discord, whether
+   * the configured guilds resolved, the gRPC server and the background routines
+   * @returns {HealthReport}
+   * @memberof Bot
+   */
+  health(): HealthReport {
+    const status = GATEWAY_STATUSES[this._client.status] || 'DISCONNECTED'
+    const primary: boolean = this._primaryGuild !== undefined
+    const resolved: string[] = this._guilds.map(g => g.id)
+
+    return {
+      live: status !== 'DISCONNECTED',
+      ready: status === 'READY' && primary && this._stateLoaded && this._grpcAddress !== null,
+      version: Bot.VERSION,
+      uptime: Math.floor(process.uptime()),
+      discord: {
+        status,
+        ping: status === 'READY' ? Math.round(this._client.ping) : null,
+        readySince: this._client.readyAt ? this._client.readyAt.toISOString() : null
+      },
+      guilds: {
+        primary,
+        resolved,
+        missing: Env.GUILD_IDS.filter(id => !resolved.includes(id))
+      },
+      stateLoaded: this._stateLoaded,
+      grpc: { serving: this._grpcAddress !== null, address: this._grpcAddress },
+      routines: Routines.statuses()
     }
+  }
 
-    // Get role sets for all users in Discord server
-    const users: { id: string; roles: string[] }[] = []
-    this._guild!.members.forEach(m => {
-      users.push({ id: m.id, roles: m.roles.map(r => r.name) })
-    })
-    return { users }
+  /**
+   * Handler for gRPC call for fetching the set of role names currently assigned
+   * to the members of the primary guild that match the query, a page at a time
+   * @throws {QueryError}
+   * @param {UserRoleQuery} query
+   * @returns {UserRoleSets}
+   * @memberof Bot
+   */
+  getUserRoles(query: UserRoleQuery): UserRoleSets {
+    return queryUserRoles(discordGuild(this._primaryGuild!), query)
   }
 
   /**
-   * GRPC handler function for provisioning a set of assigns and revokes for user roles
+   * GRPC handler function for provisioning a set of assigns and revokes for user roles,
+   * which only succeeds if the member exists and every role could be applied. When the
+   * user isn't a member it is deferred until they join. A dry run only checks whether
+   * it would succeed without changing the roles, being deferred or being logged.
+   * @throws {QueryError}
    * @param {string} id
    * @param {string[]} assign
    * @param {string[]} revoke
-   * @returns {Promise<boolean>}
+   * @param {boolean} [dryRun=false]
+   * @returns {Promise<ProvisionResult>}
+   * @memberof Bot
+   */
+  async provisionUserRoles(id: string, assign?: string[], revoke?: string[], dryRun = false): Promise<ProvisionResult> {
+    const result: ProvisionResult = await this._provision({ id, assign, revoke, dryRun })
+    provisions.inc({ call: 'provision', result: provisionOutcome(result) })
+    const member: Discord.GuildMember | undefined = this._primaryGuild!.members.get(id)
+    if (member && !dryRun) this._logRoleChangeFromAuth(member, 'AUTH_PROVISIONING', provisionSummary(result))
+    return result
+  }
+
+  /**
+   * GRPC handler function for provisioning the role diffs of many members. The diffs
+   * are applied one at a time, pausing while Discord is rate limiting the bot, and the
+   * detailed result of each is returned in the same order with a summary in the audit logs.
+   * A diff that can't be applied, like one for an invalid user ID, fails with the error in its
+   * result. Dry run diffs are included in the results but left out of the summary.
+   * @async
+   * @param {RoleDiff[]} diffs
+   * @returns {Promise<ProvisionResult[]>}
    * @memberof Bot
    */
-  async provisionUserRoles(id: string, assign?: string[], revoke?: string[]): Promise<boolean> {
-    let success: boolean = true
+  async provisionBatch(diffs: RoleDiff[]): Promise<ProvisionResult[]> {
+    const results: ProvisionResult[] = []
+    for (const diff of diffs) {
+      let result: ProvisionResult
+      try {
+        const wait: number = this._rateLimitedUntil - Date.now()
+        if (wait > 0 && !diff.dryRun) await new Promise(resolve => setTimeout(resolve, wait))
+        result = await this._provision(diff)
+      } catch (e) {
+        // A diff that fails is reported in its result so that the rest of the batch is still applied
+        if (!(e instanceof QueryError)) log.error(`AUTH_PROVISIONING_FAILURE: ${diff.id} - ${e.message}`)
+        result = failedProvision(diff, e.message)
+      }
+
+      provisions.inc({ call: 'batch', result: provisionOutcome(result) })
+      results.push(result)
+    }
+
+    const applied: ProvisionResult[] = results.filter(r => !r.dryRun)
+    if (applied.length === 0) return results
 
     try {
-      if (assign && assign.length > 0) success = success && (await this._assignUserRoles({ id, roles: assign }))
+      this._logChannel(this._primaryGuild!)!.send({ embed: provisionBatchLogMessage(applied) })
+    } catch (e) {
+      log.error('PROVISION_BATCH_LOG_FAILED')
+    }
+
+    return results
+  }
+
+  /**
+   * GRPC handler function for sending a message to the channel of the primary guild
+   * with the key, returning the handle to edit or delete the message with
+   * @async
+   * @throws {MessagingError}
+   * @param {string} key
+   * @param {RelayedContent} relayed
+   * @returns {Promise<string>}
+   * @memberof Bot
+   */
+  async sendToChannel(key: string, relayed: RelayedContent): Promise<string> {
+    const id: string = Env.raw(Env.GUILD_ID, channelSetting(key))
+    const channel: Discord.GuildChannel | undefined = id ? this._primaryGuild!.channels.get(id) : undefined
+    if (!channel || channel.type !== 'text') {
+      throw new MessagingError('FAILED_PRECONDITION', `the ${key.toLowerCase()} channel is not configured`)
+    }
+
+    const sent: Discord.Message = await this._relay(channel as Discord.TextChannel, relayed)
+    log.info(`GRPC_MESSAGE: sent ${sent.id} to #${(channel as Discord.TextChannel).name}`)
+    return encodeHandle({ kind: 'channel', target: channel.id, message: sent.id })
+  }
 
-      if (revoke && revoke.length > 0) {
-        if (revoke.length === 1 && revoke[0] === 'Symbol(all)')
-          success = success && (await this._revokeUserRoles({ id }))
-        else success = success && (await this._revokeUserRoles({ id, roles: revoke }))
+  /**
+   * GRPC handler function for sending a direct message to a member of the primary
+   * guild, returning the handle to edit or delete the message with
+   * @async
+   * @throws {MessagingError}
+   * @param {string} id
+   * @param {RelayedContent} relayed
+   * @returns {Promise<string>}
+   * @memberof Bot
+   */
+  async sendDirectMessage(id: string, relayed: RelayedContent): Promise<string> {
+    const member: Discord.GuildMember | undefined = this._primaryGuild!.members.get(id)
+    if (!member) throw new MessagingError('NOT_FOUND', `${id} is not a member of the server`)
+
+    const sent: Discord.Message = await this._relay(member, relayed).catch(e => {
+      if (!(e instanceof MessagingError) || e.code !== 'INVALID_ARGUMENT') dmFailures.inc({ source: 'messaging' })
+      throw e
+    })
+    log.info(`GRPC_MESSAGE: sent ${sent.id} to ${member.user.username}`)
+    return encodeHandle({ kind: 'dm', target: id, message: sent.id })
+  }
+
+  /**
+   * GRPC handler function for editing a message that was sent through the messaging
+   * service with the new content, or deleting it when there is no content
+   * @async
+   * @throws {MessagingError}
+   * @param {string} handle
+   * @param {RelayedContent | null} relayed
+   * @memberof Bot
+   */
+  async updateSentMessage(handle: string, relayed: RelayedContent | null) {
+    const message: Discord.Message = await this._sentMessage(decodeHandle(handle))
+
+    try {
+      if (!relayed) {
+        await message.delete()
+        log.info(`GRPC_MESSAGE: deleted ${message.id}`)
+        return
       }
 
-      return success
-    } catch (err) {
-      log.error(`FAILED_GRPC_PROVISION: ${id}`)
-      return false
+      const content: ReplyContent = relayedContent(relayed)
+      if (typeof content === 'string') await message.edit(content)
+      else await message.edit(content.content || '', { embed: content.embed as Discord.RichEmbed })
+      log.info(`GRPC_MESSAGE: edited ${message.id}`)
+    } catch (e) {
+      throw apiFailure(e)
+    }
+  }
+
+  /**
+   * GRPC handler function for auditing a call that was rejected before being handled,
+   * which is logged and pushed to the audit logs of the primary guild
+   * @param {string} method
+   * @param {string} peer
+   * @param {string} reason
+   * @memberof Bot
+   */
+  logRejectedCall(method: string, peer: string, reason: string) {
+    log.error(`GRPC_REJECTED: ${method} from ${peer} - ${reason}`)
+
+    try {
+      this._logChannel(this._primaryGuild!)!.send({ embed: rpcRejectedLogMessage(method, peer, reason) })
+    } catch (e) {
+      log.error('GRPC_REJECTED_LOG_FAILED')
     }
   }
 
@@ -277,10 +621,10 @@ export class Bot implements Routinable {
   //     }
   //
   //     // Send alarms to users who are registered for the player count or lower
-  //     const userAlarms: Discord.User[] = Alarms.filter(players)
-  //     for (const u of userAlarms) {
-  //       await u.send({ embed: alarmMessage(players) })
-  //       Alarms.remove(u)
+  //     const userAlarms: string[] = Alarms.filter(players)
+  //     for (const id of userAlarms) {
+  //       await sendDirectMessage(this._client, id, { embed: alarmMessage(players) })
+  //       Alarms.remove(id)
   //     }
   //   } catch (e) {
   //     log.error(`NEW_MISSION: ${e.message}`)
@@ -327,21 +671,25 @@ export class Bot implements Routinable {
   // }
 
   /**
-   * Gets the active LFG groups and notifies the designated channel
+   * Gets the active LFG groups of each guild and notifies its designated channel
    * @private
    * @async
    * @memberof Bot
    */
   private async _notifyOfActiveGroups() {
-    const groups: Group[] = Groups.getGroups()
-    try {
-      // Notify the LFG channel if there are any active groups
-      if (groups.length > 0) {
-        const chan = this._guild!.channels.find(c => c.id === Env.LFG_CHANNEL) as Discord.TextChannel
-        await chan.send({ embed: groupsMessage(groups) })
+    for (const guild of this._guilds) {
+      const groups: Group[] = Groups.getGroups(guild.id)
+      try {
+        // Notify the LFG channel if there are any active groups
+        if (groups.length > 0) {
+          const id: string = Env.guild(guild.id).LFG_CHANNEL
+          const chan = guild.channels.find(c => c.id === id) as Discord.TextChannel | null
+          if (!chan) throw new Error(`LFG_CHANNEL ${id} does not exist in the server`)
+          await chan.send({ embed: groupsMessage(guild.id, groups) })
+        }
+      } catch (e) {
+        log.error(`LFG_ALERT (${guild.name}): ${e.message}`)
       }
-    } catch (e) {
-      log.error(`LFG_ALERT: ${e.message}`)
     }
   }
 
@@ -400,24 +748,168 @@ export class Bot implements Routinable {
   // }
 
   /**
-   * Handler for when a new user joins the Discord server,
-   * it generates a welcome message and send it through a
-   * private message to the new user
+   * Handler for when a new user joins a configured Discord server,
+   * it generates a welcome message for that server and send it
+   * through a private message to the new user
    * @private
    * @async
    * @param {Discord.GuildMember} member
    * @memberof Bot
    */
   private _onNewMember = async (member: Discord.GuildMember) => {
+    if (member.guild.id === Env.GUILD_ID) {
+      this._publish(member, { type: 'MEMBER_JOINED' })
+      this._applyPending(member).catch(e => log.error(`PENDING_PROVISION ${member.id}: ${e.message}`))
+    }
+    if (!this._isConfigured(member.guild)) return
+
     Bot.NEW_MEMBER_MESSAGES_SENT++
     const username: string = member.user.username
     try {
-      await member.send({ embed: welcomeMessage(username) })
+      const primary: boolean = member.guild.id === Env.GUILD_ID
+      await member.send({ embed: primary ? welcomeMessage(username) : guildWelcomeMessage(username, member.guild) })
     } catch (e) {
+      dmFailures.inc({ source: 'welcome' })
       log.error(`NEW_USER ${username}: ${e.message}`)
     }
   }
 
+  /**
+   * Applies the role provisions that were deferred until the member joined the primary guild
+   * @private
+   * @async
+   * @param {Discord.GuildMember} member
+   * @memberof Bot
+   */
+  private async _applyPending(member: Discord.GuildMember) {
+    const pending: PendingProvision | null = Pending.take(member.id)
+    if (!pending) return
+
+    for (const diff of pending.diffs) {
+      const result: ProvisionResult = await this._provision(diff)
+      this._logRoleChangeFromAuth(member, 'AUTH_DEFERRED_PROVISIONING', provisionSummary(result))
+    }
+  }
+
+  /**
+   * Handler for when a member leaves, or is removed from, the primary guild
+   * @private
+   * @param {Discord.GuildMember} member
+   * @memberof Bot
+   */
+  private _onMemberLeave = (member: Discord.GuildMember) => {
+    if (member.guild.id === Env.GUILD_ID) this._publish(member, { type: 'MEMBER_LEFT' })
+  }
+
+  /**
+   * Handler for when a member of the primary guild is updated, publishing an event
+   * for each role they were given or had taken away, with who did it, and for a
+   * change of their nickname
+   * @private
+   * @async
+   * @param {Discord.GuildMember} previous
+   * @param {Discord.GuildMember} member
+   * @memberof Bot
+   */
+  private _onMemberUpdate = async (previous: Discord.GuildMember, member: Discord.GuildMember) => {
+    if (member.guild.id !== Env.GUILD_ID) return
+
+    const added: Discord.Role[] = member.roles.filter(r => !previous.roles.has(r.id)).array()
+    const removed: Discord.Role[] = previous.roles.filter(r => !member.roles.has(r.id)).array()
+    const executors: Map<string, string> =
+      added.length + removed.length > 0 ? await this._roleChangeExecutors(member, added, removed) : new Map()
+
+    for (const role of added)
+      this._publish(member, {
+        type: 'ROLE_ADDED',
+        roleId: role.id,
+        roleName: role.name,
+        executorId: executors.get(role.id)
+      })
+    for (const role of removed)
+      this._publish(member, {
+        type: 'ROLE_REMOVED',
+        roleId: role.id,
+        roleName: role.name,
+        executorId: executors.get(role.id)
+      })
+
+    if (previous.nickname !== member.nickname) {
+      this._publish(member, {
+        type: 'NICKNAME_CHANGED',
+        oldNickname: previous.nickname || '',
+        newNickname: member.nickname || ''
+      })
+    }
+  }
+
+  /**
+   * Looks in the recent audit logs of the guild for who gave the roles to the member or
+   * took them away, keyed by role ID, looking again after a short wait for the roles that
+   * weren't found as the entries can be written after the change is received. Roles without
+   * an entry, like when the bot doesn't have the permission to view the audit logs, are left out.
+   * @private
+   * @async
+   * @param {Discord.GuildMember} member
+   * @param {Discord.Role[]} added
+   * @param {Discord.Role[]} removed
+   * @returns {Promise<Map<string, string>>}
+   * @memberof Bot
+   */
+  private async _roleChangeExecutors(
+    member: Discord.GuildMember,
+    added: Discord.Role[],
+    removed: Discord.Role[]
+  ): Promise<Map<string, string>> {
+    const executors: Map<string, string> = new Map()
+    const changed = (key: string): Discord.Role[] => (key === '$add' ? added : key === '$remove' ? removed : [])
+
+    for (const wait of [0, Bot.AUDIT_LOG_RETRY_MS]) {
+      if ([...added, ...removed].every(r => executors.has(r.id))) break
+      if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait))
+
+      try {
+        const logs: Discord.GuildAuditLogs = await member.guild.fetchAuditLogs({
+          type: 'MEMBER_ROLE_UPDATE',
+          limit: 25
+        })
+
+        // Entries are newest first so the latest change of each role is kept
+        for (const entry of logs.entries.values()) {
+          if ((entry.target as Discord.User).id !== member.id) continue
+          if (Date.now() - entry.createdTimestamp > Bot.AUDIT_LOG_WINDOW_MS) continue
+
+          for (const change of entry.changes || []) {
+            for (const { id } of (change.new || []) as { id: string }[]) {
+              if (changed(change.key).some(r => r.id === id) && !executors.has(id)) executors.set(id, entry.executor.id)
+            }
+          }
+        }
+      } catch (e) {
+        log.error(`AUDIT_LOG_FETCH: ${e.message}`)
+        break
+      }
+    }
+
+    return executors
+  }
+
+  /**
+   * Publishes an event for the member to the feed streamed by the gRPC `Watch` call
+   * @private
+   * @param {Discord.GuildMember} member
+   * @param {Omit<MemberEvent, 'sequence' | 'timestamp' | 'userId' | 'username'>} details
+   * @memberof Bot
+   */
+  private _publish(
+    member: Discord.GuildMember,
+    details: Omit<MemberEvent, 'sequence' | 'timestamp' | 'userId' | 'username'>
+  ) {
+    Feed.publish({ ...details, userId: member.id, username: member.user.username }).catch(e =>
+      log.error(`FEED_PUBLISH: ${e.message}`)
+    )
+  }
+
   /**
    * Handler for when a new message is received to the bot
    * and it determines the current way to react based on the
@@ -429,126 +921,306 @@ export class Bot implements Routinable {
    * @memberof Bot
    */
   private _onMessage = async (msg: Discord.Message) => {
-    // Skip message if came from bot
-    if (msg.author.bot) return
-
-    // Get the command and its arguments from received message
-    const [cmd, ...args] = msg.content.split(' ')
-    const cmdKey = cmd.slice(1)
-
-    // Check if the message actually is a command (starts with '!')
-    if (cmd.startsWith('!')) {
-      Bot.REQUEST_COUNT++
-
-      // Look for a handler function is the map that matches the command
-      const fn = this._commands.get(cmdKey)
-      if (fn) {
-        // Get the origin of the message, DM or guild
-        const origin: string = msg.guild ? 'GLD' : 'PM'
-
-        try {
-          // Delete the original command, run the handler and log the response
-          if (origin === 'GLD') await msg.delete()
-
-          const output = await fn(msg.guild || this._guild, msg, args)
-          this._logCommandUse(msg, output)
-          log.cmd(`(${origin})(${msg.author.username} - ${cmd}) - ${output}`)
-
-          if (cmd === '!shutdown' && output === 'shutdown successful') process.exit(0)
-        } catch (e) {
-          log.error(`COMMAND (${origin})(${msg.author.username} - ${cmd}) : ${e.message}`)
-        }
-      } else {
-        try {
-          await msg.delete()
-          await msg.author.send(`Sorry, I wasn't taught how to handle \`${cmd}\`. 🙁`)
-          log.error(`NO_COMMAND (${msg.author.username}) - ${cmd}`)
-        } catch (e) {
-          log.error('MESSAGE_DELETE')
-        }
+    // Skip message if came from bot or a server that isn't configured
+    if (msg.author.bot || (msg.guild && !this._isConfigured(msg.guild))) return
+
+    // Get the guild the message runs against and the command invoked with its prefix or a mention
+    const guild: Discord.Guild | undefined = msg.guild || this._guildFor(msg.author)
+    const prefix: string = Env.guild(guild ? guild.id : undefined).PREFIX
+    const invocation: Invocation | null = this._parseInvocation(msg.content, prefix)
+    if (!invocation) return
+
+    // Get the origin of the message, DM or guild
+    const origin: string = msg.guild ? 'GLD' : 'PM'
+    const cmd: string = `${prefix}${invocation.name}`
+
+    try {
+      // Delete the original command, run the handler and log the response
+      if (origin === 'GLD') await msg.delete()
+
+      if (!guild) {
+        await msg.author.send(`You need to be a member of a server I'm in to run \`${cmd}\`.`)
+        return log.cmd(`(${origin})(${msg.author.username} - ${cmd}) - NO_GUILD`, { user: msg.author.id })
       }
+
+      const output: string | null = await this._dispatch(discordContext(msg, guild), invocation, prefix)
+      if (output === null) return
+
+      this._logCommandUse(guild, msg, output)
+      if (Toggles.resolve(invocation.name) === 'shutdown' && output === 'shutdown successful') process.exit(0)
+    } catch (e) {
+      log.error(`COMMAND (${origin})(${msg.author.username} - ${cmd}) : ${e.message}`, {
+        guild: guild ? guild.id : undefined,
+        user: msg.author.id,
+        command: invocation.name
+      })
     }
   }
 
   /**
-   * Handles the GRPC provision calls for assigning user roles and
-   * uses the payload's user ID and roles list to assign the appropriate user
-   * the roles on the Discord server they should belong to
+   * Runs the command in the content for the invoker of the context, which lets
+   * transports other than Discord, like the local console, use the same commands.
+   * Returns the output of the command or null if it did not run.
+   * @async
+   * @param {CommandContext} ctx
+   * @param {string} content
+   * @returns {Promise<string | null>}
+   * @memberof Bot
+   */
+  async execute(ctx: CommandContext, content: string): Promise<string | null> {
+    const prefix: string = Env.guild(ctx.guild.id).PREFIX
+    const invocation: Invocation | null = this._parseInvocation(content, prefix)
+    return invocation ? await this._dispatch(ctx, invocation, prefix) : null
+  }
+
+  /**
+   * Looks up the handler of the invoked command or one of its aliases and runs it
+   * unless it is disabled, its policy denies the invoker or they are sending commands too quickly,
+   * returning the output of the command or null if it is unknown or was throttled
    * @private
-   * @param {{ id: string, roles: string[] }} payload
-   * @returns {Promise<boolean>}
+   * @async
+   * @param {CommandContext} ctx
+   * @param {Invocation} invocation
+   * @param {string} prefix
+   * @returns {Promise<string | null>}
    * @memberof Bot
    */
-  private _assignUserRoles = async (payload: { id: string; roles: string[] }): Promise<boolean> => {
-    try {
-      const member: Nullable<Discord.GuildMember> = this._guild!.members.find(m => m.user.id === payload.id)
+  private async _dispatch(ctx: CommandContext, invocation: Invocation, prefix: string): Promise<string | null> {
+    const cmd: string = `${prefix}${invocation.name}`
+    const fields: log.LogFields = {
+      guild: ctx.guild.id,
+      user: ctx.invoker.id,
+      command: invocation.name,
+      correlationId: log.correlationId()
+    }
+    Bot.REQUEST_COUNT++
 
-      if (member) {
-        const rolesToAdd: Discord.Role[] = []
-        for (const role of payload.roles) {
-          const guildRole: Nullable<Discord.Role> = this._guild!.roles.find(r => r.name === role)
-          if (guildRole) rolesToAdd.push(guildRole)
-        }
-        await member.addRoles(rolesToAdd, 'Provision Task via UO Authenticator or Sentry')
+    const fn: BotAction | undefined = this._commands.get(invocation.name)
+    if (!fn) {
+      // Unknown commands spend from the same budget as the others so that they can't be used to spam suggestions
+      const throttle: Throttle | null = this._limiter.check(ctx.invoker.id, 'unknown', 0)
+      if (throttle) {
+        commandInvocations.inc({ command: 'unknown', outcome: 'THROTTLED' })
+        await this._onThrottled(ctx, cmd, throttle, fields)
+        return null
       }
 
-      this._logRoleChangeFromAuth(member, 'AUTH_PROVISIONING', payload.roles.join(', '))
-      return true
-    } catch (err) {
-      log.error(`AUTH_PROVISIONING_FAILURE: ${err.message}`)
-      return false
+      commandInvocations.inc({ command: 'unknown', outcome: 'UNKNOWN_COMMAND' })
+      await this._onUnknownCommand(ctx, invocation.name, prefix, fields)
+      return null
+    }
+
+    const cmdKey: string = Toggles.resolve(invocation.name)!
+    fields.command = cmdKey
+
+    // Let the invoker know if the command has been disabled by the developers or an admin
+    const notice: string | null = disabledNotice(ctx, cmdKey)
+    if (notice) {
+      commandInvocations.inc({ command: cmdKey, outcome: 'COMMAND_DISABLED' })
+      await ctx.dm(notice)
+      log.cmd(`(${ctx.origin})(${ctx.invoker.username} - ${cmd}) - COMMAND_DISABLED`, fields)
+      return 'COMMAND_DISABLED'
+    }
+
+    // Explain to the invoker why the policy of the command doesn't allow them to run it here. Admins are
+    // exempt from the policies of the admin commands so that they can't lock themselves out of `policy`
+    const registration = this._registry.get(cmdKey)
+    const exempt: boolean =
+      !!registration && registration.definition.category === 'Admin' && admins.permits(ctx.guild, ctx.invoker)
+    const denial: string | null = exempt ? null : policyDenial(ctx, cmdKey)
+    if (denial) {
+      commandInvocations.inc({ command: cmdKey, outcome: 'POLICY_DENIED' })
+      await ctx.dm(denial)
+      log.cmd(`(${ctx.origin})(${ctx.invoker.username} - ${cmd}) - POLICY_DENIED`, fields)
+      return 'POLICY_DENIED'
+    }
+
+    // Reject the request before it runs if the user is sending commands too quickly
+    const cooldown: number = registration ? cooldownFor(registration.definition) : 0
+    const throttle: Throttle | null = this._limiter.check(ctx.invoker.id, cmdKey, cooldown)
+    if (throttle) {
+      commandInvocations.inc({ command: cmdKey, outcome: 'THROTTLED' })
+      await this._onThrottled(ctx, cmd, throttle, fields)
+      return null
+    }
+
+    const done: () => void = commandDuration.startTimer({ command: cmdKey })
+    let output: string
+    try {
+      output = await fn(ctx, invocation.args)
+    } catch (e) {
+      commandInvocations.inc({ command: cmdKey, outcome: 'ERROR' })
+      log.debug(`(${ctx.origin})(${ctx.invoker.username} - ${cmd}) - ${e.stack || e.message}`, fields)
+      throw e
+    } finally {
+      done()
+    }
+
+    commandInvocations.inc({ command: cmdKey, outcome: commandOutcome(output) })
+    log.cmd(`(${ctx.origin})(${ctx.invoker.username} - ${cmd}) - ${output}`, fields)
+    return output
+  }
+
+  /**
+   * Handler for a command that doesn't exist, which records how often the name
+   * is used and suggests the registered commands with a similar name
+   * @private
+   * @async
+   * @param {CommandContext} ctx
+   * @param {string} name
+   * @param {string} prefix
+   * @param {log.LogFields} fields
+   * @memberof Bot
+   */
+  private async _onUnknownCommand(ctx: CommandContext, name: string, prefix: string, fields: log.LogFields) {
+    const count: number | undefined = Bot.UNKNOWN_COMMANDS.get(name)
+    if (count !== undefined || Bot.UNKNOWN_COMMANDS.size < Bot.MAX_UNKNOWN_COMMANDS) {
+      Bot.UNKNOWN_COMMANDS.set(name, (count || 0) + 1)
+    }
+
+    const suggestions: string[] = this._suggest(name).map(s => `\`${prefix}${s}\``)
+    const hint: string = suggestions.length > 0 ? ` Did you mean ${suggestions.join(' or ')}?` : ''
+
+    log.error(`NO_COMMAND (${ctx.invoker.username}) - ${prefix}${name}`, fields)
+    try {
+      await ctx.dm(`Sorry, I wasn't taught how to handle \`${prefix}${name}\`. 🙁${hint}`)
+    } catch (e) {
+      log.error(`NO_COMMAND_NOTIFY (${ctx.invoker.username}): ${e.message}`, fields)
+    }
+  }
+
+  /**
+   * Returns up to three of the registered commands closest to the unknown
+   * name, matching against the name and the aliases of each command
+   * @private
+   * @param {string} name
+   * @returns {string[]}
+   * @memberof Bot
+   */
+  private _suggest(name: string): string[] {
+    const distances: Map<string, number> = new Map()
+
+    for (const [alias, command] of Toggles.aliases()) {
+      const distance: number = editDistance(name, alias)
+      if (distance > Bot.MAX_SUGGESTION_DISTANCE || distance >= alias.length) continue
+      if (!distances.has(command) || distance < distances.get(command)!) distances.set(command, distance)
     }
+
+    return [...distances.entries()]
+      .sort((a, b) => a[1] - b[1])
+      .slice(0, 3)
+      .map(([command]) => command)
   }
 
   /**
-   * Handles the GRPC provision calls for revoking user roles and
-   * uses the payload's user ID to remove all roles from the argued user
-   * if found in the Discord server
+   * Parses the command name and arguments from the content of a message that
+   * either starts with the command prefix or mentions the bot, returning null
+   * if the message is not a command. A mention is only an invocation when it is
+   * followed by the name or alias of a command, so that chatting with the bot is
+   * left alone. Command names are case insensitive.
    * @private
-   * @param {{ id: string, roles?: string[] }} payload
-   * @returns {Promise<boolean>}
+   * @param {string} content
+   * @param {string} prefix
+   * @returns {(Invocation | null)}
    * @memberof Bot
    */
-  private _revokeUserRoles = async (payload: { id: string; roles?: string[] }): Promise<boolean> => {
+  private _parseInvocation(content: string, prefix: string): Invocation | null {
+    const mention: RegExp | null = this._client.user ? new RegExp(`^\\s*<@!?${this._client.user.id}>`) : null
+
+    // The prefix is optional after a mention, as in `@UO Bot lfg list`
+    if (mention && mention.test(content)) {
+      const [name = '', ...args] = tokenize(content.replace(mention, ''))
+      const key: string = (name.startsWith(prefix) ? name.slice(prefix.length) : name).toLowerCase()
+      return Toggles.resolve(key) ? { name: key, args } : null
+    }
+
+    const [first = '', ...args] = tokenize(content)
+    if (!first.startsWith(prefix) || first.length === prefix.length) return null
+    return { name: first.slice(prefix.length).toLowerCase(), args }
+  }
+
+  /**
+   * Handler for a command request that was rejected by the rate limiter,
+   * letting the user know when they can retry the first time they are throttled
+   * @private
+   * @async
+   * @param {CommandContext} ctx
+   * @param {string} cmd
+   * @param {Throttle} throttle
+   * @param {log.LogFields} fields
+   * @memberof Bot
+   */
+  private async _onThrottled(ctx: CommandContext, cmd: string, throttle: Throttle, fields: log.LogFields) {
+    Bot.THROTTLED_COUNT++
+    log.cmd(
+      `THROTTLED (${throttle.reason})(${ctx.invoker.username} - ${cmd}) - retry in ${throttle.retryAfter}s`,
+      fields
+    )
+
     try {
-      const member: Nullable<Discord.GuildMember> = this._guild!.members.find(m => m.user.id === payload.id)
-
-      let rolesToRevoke: Discord.Role[] | Discord.Collection<string, Discord.Role>
-      if (payload.roles) {
-        rolesToRevoke = []
-        for (const role of payload.roles) {
-          const guildRole: Nullable<Discord.Role> = this._guild!.roles.find(r => r.name === role)
-          if (guildRole) rolesToRevoke.push(guildRole)
-        }
-      } else {
-        rolesToRevoke = member.roles
+      if (throttle.notify) {
+        const wait: string = `${throttle.retryAfter} second${throttle.retryAfter === 1 ? '' : 's'}`
+        await ctx.dm(
+          throttle.reason === 'cooldown'
+            ? `Slow down! You can run \`${cmd}\` again in ${wait}.`
+            : `Slow down! You're sending commands too quickly, you can try again in ${wait}.`
+        )
       }
+    } catch (e) {
+      log.error(`THROTTLE_NOTIFY (${ctx.invoker.username}): ${e.message}`, fields)
+    }
+  }
 
-      if (member) {
-        await member.removeRoles(rolesToRevoke, 'Provision Task via UO Authenticator or Sentry')
-      }
+  /**
+   * Applies a role diff to a member of the primary guild, logging the ones that fail unless
+   * they are dry runs, and defers it until they join when the user isn't a member
+   * @private
+   * @async
+   * @throws {QueryError}
+   * @param {RoleDiff} diff
+   * @returns {Promise<ProvisionResult>}
+   * @memberof Bot
+   */
+  private async _provision(diff: RoleDiff): Promise<ProvisionResult> {
+    validateDiff(diff)
+    const result: ProvisionResult = await applyProvision(
+      discordGuild(this._primaryGuild!),
+      diff,
+      'Provision Task via UO Authenticator or Sentry'
+    )
+
+    if (result.memberMissing && !result.dryRun) {
+      Pending.defer(diff)
+      result.deferred = true
+    }
 
-      this._logRoleChangeFromAuth(member, 'AUTH_REVOKE', `${member.user.username} roles revoked`)
-      return true
-    } catch (err) {
-      log.error(`AUTH_REVOKE_FAILURE: ${err.message}`)
-      return false
+    if (isRevokeAll(diff.revoke) && result.revoked.length > 0 && !result.dryRun) {
+      try {
+        const record: RevocationRecord = Revocations.get(Env.GUILD_ID, diff.id)!
+        this._logChannel(this._primaryGuild!)!.send({ embed: revocationLogMessage(record, result) })
+      } catch (e) {
+        log.error('REVOCATION_LOG_FAILED')
+      }
     }
+
+    if (!result.success && !result.dryRun)
+      log.error(`AUTH_PROVISIONING_FAILURE: ${diff.id} - ${provisionSummary(result)}`)
+    return result
   }
 
   /**
    * Logs all commands run through the bot to the designated logging
-   * channel on the Discord server with the essential date and timestamp
+   * channel of the guild with the essential date and timestamp
    * @private
    * @async
-   * @param {string} tag
+   * @param {Discord.Guild} guild
    * @param {Discord.Message} cmd
    * @param {string} output
    * @memberof Bot
    */
-  private _logCommandUse(cmd: Discord.Message, output: string) {
+  private _logCommandUse(guild: Discord.Guild, cmd: Discord.Message, output: string) {
     try {
-      this._logChannel!.send({ embed: commandUseLogMessage(cmd, output) })
+      this._logChannel(guild)!.send({ embed: commandUseLogMessage(cmd, output) })
     } catch (e) {
       log.error('COMMAND_USE_LOG_FAILED')
     }
@@ -556,7 +1228,7 @@ export class Bot implements Routinable {
 
   /**
    * Pushes to bot audit logs for a user's role being updated by the
-   * new authentication system
+   * new authentication system in the primary guild
    * @private
    * @param {Discord.GuildMember} user
    * @param {string} action
@@ -565,41 +1237,99 @@ export class Bot implements Routinable {
    */
   private _logRoleChangeFromAuth(user: Discord.GuildMember, action: string, result: string) {
     try {
-      this._logChannel!.send({ embed: rolesUpdatedLogMessage(user, action, result) })
+      this._logChannel(this._primaryGuild!)!.send({ embed: rolesUpdatedLogMessage(user, action, result) })
     } catch (e) {
       log.error('ROLE_CHANGE_LOG_FAILED')
     }
   }
 
   /**
-   * Pushes to the bot audit logs for a message that was deleted
+   * Sends the content relayed through the messaging service to the channel or user
+   * @private
+   * @async
+   * @throws {MessagingError}
+   * @param {Discord.TextChannel | Discord.GuildMember} target
+   * @param {RelayedContent} relayed
+   * @returns {Promise<Discord.Message>}
+   * @memberof Bot
+   */
+  private async _relay(
+    target: Discord.TextChannel | Discord.GuildMember,
+    relayed: RelayedContent
+  ): Promise<Discord.Message> {
+    const content: ReplyContent = relayedContent(relayed)
+
+    try {
+      const sent: Discord.Message | Discord.Message[] =
+        typeof content === 'string'
+          ? await target.send(content)
+          : await target.send(content.content || '', { embed: content.embed as Discord.RichEmbed })
+      return Array.isArray(sent) ? sent[0] : sent
+    } catch (e) {
+      throw apiFailure(e)
+    }
+  }
+
+  /**
+   * Fetches a message that the bot sent through the messaging service by where it was sent,
+   * which must be a channel of the primary guild or the direct messages of a user
+   * @private
+   * @async
+   * @throws {MessagingError}
+   * @param {MessageHandle} handle
+   * @returns {Promise<Discord.Message>}
+   * @memberof Bot
+   */
+  private async _sentMessage({ kind, target, message }: MessageHandle): Promise<Discord.Message> {
+    try {
+      const channel: Discord.TextChannel | Discord.DMChannel | undefined =
+        kind === 'dm'
+          ? await (await this._client.fetchUser(target)).createDM()
+          : (this._primaryGuild!.channels.get(target) as Discord.TextChannel | undefined)
+      if (!channel) throw new MessagingError('NOT_FOUND', 'the channel of the message no longer exists')
+
+      const sent: Discord.Message = await channel.fetchMessage(message)
+      if (sent.author.id !== this._client.user.id) {
+        throw new MessagingError('PERMISSION_DENIED', 'only messages sent by the bot can be changed')
+      }
+      return sent
+    } catch (e) {
+      throw apiFailure(e)
+    }
+  }
+
+  /**
+   * Pushes to the audit logs of the guild for a message that was deleted
    * @private
    * @param {Discord.Message} message
    * @memberof Bot
    */
   private _logMessageDelete = (message: Discord.Message) => {
-    if (message.content.startsWith('!')) return
+    if (!message.guild || !this._isConfigured(message.guild)) return
+    if (this._parseInvocation(message.content, Env.guild(message.guild.id).PREFIX)) return
+
     try {
       const timestamp = new Date().toUTCString()
-      this._logChannel!.send({ embed: messageDeletedLogMessage(timestamp, message) })
+      this._logChannel(message.guild)!.send({ embed: messageDeletedLogMessage(timestamp, message) })
     } catch (e) {
       log.error('MESSAGE_DELETE_LOG_FAILED')
     }
   }
 
   /**
-   * Pushes to the audit logs for a message that was updated or edited
+   * Pushes to the audit logs of the guild for a message that was updated or edited
    * @private
    * @param {Discord.Message} oldMessage
    * @param {Discord.Message} newMessage
    * @memberof Bot
    */
   private _logMessageUpdate = (oldMessage: Discord.Message, newMessage: Discord.Message) => {
+    if (!newMessage.guild || !this._isConfigured(newMessage.guild)) return
     if (!oldMessage.content || !newMessage.content || oldMessage.content === newMessage.content) return
 
     try {
       const timestamp = new Date().toUTCString()
-      this._logChannel!.send({ embed: messageUpdatedLogMessage(timestamp, oldMessage, newMessage) })
+      this._logChannel(newMessage.guild)!.send({ embed: messageUpdatedLogMessage(timestamp, oldMessage, newMessage) })
     } catch (e) {
       log.error('MESSAGE_UPDATE_LOG_FAILED')
     }
@@ -0,0 +1,152 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+require('dotenv').config()
+// Keep the console's state in memory unless a storage backend is chosen explicitly,
+process.env.STORAGE_BACKEND = process.env.STORAGE_BACKEND || 'memory'
+// and write the logs as text to read them alongside the output of the commands
+process.env.LOG_FORMAT = process.env.LOG_FORMAT || 'text'
+import readline from 'readline'
+import { Bot } from './bot'
+import { registerCommands } from './lib/commands'
+import { Env, Settings, Policies, Toggles, Groups, Alarms, Pending, Revocations } from './lib/state'
+import { SimulatedGuild, SimulatedMember } from './lib/adapters/console'
+import { ChannelContext } from './lib/context'
+import { rolesForLevel } from './lib/permissions'
+import * as log from './lib/logger'
+
+const directives: string = [
+  '.as <name>      run commands as the member with the name',
+  '.in <channel>   send commands in the channel, or `dm` to send them by direct message',
+  '.grant <role>   give the role to the current member',
+  '.revoke <role>  take the role away from the current member',
+  '.whoami         show the current member and their roles',
+  '.exit           close the console'
+].join('\n')
+
+/**
+ * Type definition for who commands are run as and where they are sent
+ */
+type Session = {
+  member: SimulatedMember
+  channel: ChannelContext | null
+}
+
+/**
+ * Handles a console directive for changing who commands run as and where
+ * @async
+ * @param {SimulatedGuild} guild
+ * @param {Session} session
+ * @param {string} line
+ */
+async function directive(guild: SimulatedGuild, session: Session, line: string) {
+  const [name, ...rest] = line.slice(1).split(/\s+/)
+  const arg: string = rest.join(' ')
+
+  switch (name) {
+    case 'as':
+      if (arg) session.member = guild.memberNamed(arg)
+      break
+    case 'in': {
+      const channel: ChannelContext | null = guild.channelNamed(arg)
+      if (arg === 'dm' || channel) session.channel = channel
+      else console.log(`There is no #${arg} channel`)
+      break
+    }
+    case 'grant':
+      if (arg) await session.member.addRole(guild.addRole(arg))
+      break
+    case 'revoke': {
+      const role = session.member.roles.find(r => r.name.toLowerCase() === arg.toLowerCase())
+      if (role) await session.member.removeRole(role)
+      break
+    }
+    case 'whoami':
+      break
+    default:
+      console.log(directives)
+      return
+  }
+
+  const { member, channel } = session
+  const roles: string = member.roles.map(r => r.name).join(', ') || 'no roles'
+  console.log(`${member.username} (${member.id}) in ${channel ? channel.mention : 'direct messages'}: ${roles}`)
+}
+
+/**
+ * Starts an interactive console that runs commands against a simulated guild
+ * @async
+ */
+async function main() {
+  const { version } = require('../package.json')
+  const bot: Bot = registerCommands(new Bot(version))
+
+  await Promise.all([
+    Settings.load(),
+    Policies.load(),
+    Toggles.load(),
+    Groups.load(),
+    Alarms.load(),
+    Pending.load(),
+    Revocations.load()
+  ])
+  const guild = SimulatedGuild.fromSettings(Env.GUILD_ID || '0', 'Console', console.log)
+
+  // Commands run as an admin in the console channel by default so that every command can be tried
+  const session: Session = {
+    member: guild.memberNamed(process.env.USER || 'maintainer'),
+    channel: guild.addChannel('console')
+  }
+  for (const role of rolesForLevel(guild, 'admin')) await session.member.addRole(role)
+
+  const prefix: string = Env.guild(guild.id).PREFIX
+  console.log(`UO Bot v${version} console, run \`${prefix}help\` for commands or \`.help\` for console directives`)
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout, prompt: '> ' })
+  let pending: Promise<void> = Promise.resolve()
+
+  // Lines are handled one at a time so output stays in order when input is piped in
+  rl.on('line', (line: string) => {
+    pending = pending.then(async () => {
+      const input: string = line.trim()
+      if (input === '.exit') return rl.close()
+
+      if (input.startsWith('.')) {
+        await directive(guild, session, input)
+      } else if (input) {
+        try {
+          const output: string | null = await bot.execute(guild.context(session.member, session.channel), input)
+          if (output === 'shutdown successful') return rl.close()
+          if (output === null && !input.startsWith(Env.guild(guild.id).PREFIX))
+            console.log(`Commands start with \`${Env.guild(guild.id).PREFIX}\``)
+        } catch (e) {
+          log.error(`COMMAND (CLI)(${session.member.username} - ${input}) : ${e.message}`)
+        }
+      }
+
+      rl.prompt()
+    })
+  })
+
+  rl.on('close', () => pending.then(() => process.exit(0)))
+  rl.prompt()
+}
+
+main().catch(e => {
+  log.error(`CONSOLE: ${e.message}`)
+  process.exit(1)
+})
@@ -17,47 +17,333 @@
 
 import grpc from 'grpc'
 import { loadSync, PackageDefinition } from '@grpc/proto-loader'
+import { readFileSync } from 'fs'
 import { join } from 'path'
-import { Bot, UserRoleSets } from './bot'
-
-type ServiceCall = {
-  _events: Record<any, any>
-  _eventsCount: number
-  domain: string | null
-  call: Record<any, any>
-  cancelled: boolean
-  metadata: {
-    _internal_repr: {
-      'user-agent': string[]
-    }
-  }
-  request: any
-}
+import { Bot } from './bot'
+import { RoleDiff, ProvisionResult, UserRoleSets, QueryError } from './lib/provisioning'
+import { MessagingError, RelayedContent } from './lib/messaging'
+import { API_KEY_HEADER, apiClient, apiKeysConfigured } from './lib/apikeys'
+import { Env, Feed, MemberEvent } from './lib/state'
+import { CORRELATION_HEADER, correlationId, moduleLogger } from './lib/logger'
+
+const log = moduleLogger('grpc')
+
+type ServiceCall = grpc.ServerUnaryCall<any>
+
+type ServiceCallback = grpc.sendUnaryData<any>
+
+type ServiceHandler = (call: ServiceCall, callback: ServiceCallback) => void | Promise<void>
+
+type StreamCall = grpc.ServerWritableStream<any>
+
+type StreamHandler = (call: StreamCall) => void
+
+/**
+ * Correlation IDs of the calls being handled, sent by the client or created for the call
+ */
+const callIds: WeakMap<ServiceCall | StreamCall, string> = new WeakMap()
 
 /**
- * Initialize the gRPC server and configure the services
+ * Names of the services that the health service reports on, the empty name being the server as a whole
+ */
+const HEALTH_SERVICES: string[] = ['', 'ProvisionService', 'MessagingService']
+
+/**
+ * Milliseconds between checks of the health of the bot for the clients watching it
+ */
+const HEALTH_WATCH_MS: number = 5000
+
+/**
+ * Initialize the gRPC server and configure the services, refusing to start without
+ * API keys unless unauthenticated calls are explicitly allowed
  * @export
+ * @throws {Error}
  * @param {Bot} bot
  * @returns {grpc.Server}
  */
 export function init(bot: Bot): grpc.Server {
-  const definition: PackageDefinition = loadSync(join(__dirname, 'protos/provision.proto'))
+  // Sequence numbers are 64 bit but read as numbers, which are exact well beyond the number of events the feed will see
+  const definition: PackageDefinition = loadSync(join(__dirname, 'protos/provision.proto'), { longs: Number })
   const descriptor: grpc.GrpcObject = grpc.loadPackageDefinition(definition)
+  const messaging: grpc.GrpcObject = grpc.loadPackageDefinition(loadSync(join(__dirname, 'protos/messaging.proto')))
+  const health: grpc.GrpcObject = grpc.loadPackageDefinition(loadSync(join(__dirname, 'protos/health.proto')))
   const server = new grpc.Server()
 
   // @ts-ignore: TypeScript doesn't recognize the nested services on a GrpcObject instance
   server.addService(descriptor.ProvisionService.service, {
-    get: (call: ServiceCall, callback: any) => {
-      const res: UserRoleSets = bot.getUserRoles(call.request.id)
-      callback(null, res)
+    get: authenticated(bot, 'Get', (call: ServiceCall, callback: ServiceCallback) => {
+      const { id, ids = [], roles, pageSize, pageToken } = call.request
+      try {
+        const res: UserRoleSets = bot.getUserRoles({ ids: [...(id ? [id] : []), ...ids], roles, pageSize, pageToken })
+        callback(null, res)
+      } catch (e) {
+        callback(failure('GET', e, call), null)
+      }
+    }),
+    provision: authenticated(bot, 'Provision', async (call: ServiceCall, callback: ServiceCallback) => {
+      const { id, assign, revoke, dryRun }: RoleDiff = call.request
+      try {
+        const { success, deferred }: ProvisionResult = await bot.provisionUserRoles(id, assign, revoke, dryRun)
+        callback(null, { success, deferred })
+      } catch (e) {
+        callback(failure('PROVISION', e, call), null)
+      }
+    }),
+    provisionBatch: authenticated(bot, 'ProvisionBatch', async (call: ServiceCall, callback: ServiceCallback) => {
+      const { diffs = [] }: { diffs: RoleDiff[] } = call.request
+      try {
+        const results: ProvisionResult[] = await bot.provisionBatch(diffs)
+        const succeeded: number = results.filter(r => r.success).length
+        callback(null, { results, succeeded, failed: results.length - succeeded })
+      } catch (e) {
+        callback(failure('PROVISION_BATCH', e, call), null)
+      }
+    }),
+    watch: authenticatedStream(bot, 'Watch', watch)
+  })
+
+  // @ts-ignore: TypeScript doesn't recognize the nested services on a GrpcObject instance
+  server.addService(messaging.MessagingService.service, {
+    send: authenticated(bot, 'Send', async (call: ServiceCall, callback: ServiceCallback) => {
+      const { channel, content, embed } = call.request
+      try {
+        callback(null, { handle: await bot.sendToChannel(channel, { content, embed }) })
+      } catch (e) {
+        callback(failure('SEND', e, call), null)
+      }
+    }),
+    sendDirect: authenticated(bot, 'SendDirect', async (call: ServiceCall, callback: ServiceCallback) => {
+      const { id, content, embed } = call.request
+      try {
+        callback(null, { handle: await bot.sendDirectMessage(id, { content, embed }) })
+      } catch (e) {
+        callback(failure('SEND_DIRECT', e, call), null)
+      }
+    }),
+    update: authenticated(bot, 'Update', async (call: ServiceCall, callback: ServiceCallback) => {
+      const { handle, content, embed, delete: remove } = call.request
+      try {
+        const relayed: RelayedContent | null = remove ? null : { content, embed }
+        await bot.updateSentMessage(handle, relayed)
+        callback(null, { handle })
+      } catch (e) {
+        callback(failure('UPDATE', e, call), null)
+      }
+    })
+  })
+
+  // Health checks don't require an API key so that load balancers and orchestrators can probe the server
+  // @ts-ignore: TypeScript doesn't recognize the nested services on a GrpcObject instance
+  server.addService(health.grpc.health.v1.Health.service, {
+    check: (call: ServiceCall, callback: ServiceCallback) => {
+      const { service = '' } = call.request
+      if (!HEALTH_SERVICES.includes(service)) {
+        return callback({ name: 'NotFound', message: `unknown service ${service}`, code: grpc.status.NOT_FOUND }, null)
+      }
+      callback(null, { status: servingStatus(bot) })
     },
-    provision: async (call: ServiceCall, callback: any) => {
-      const { id, assign, revoke }: { id: string; assign: string[]; revoke: string[] } = call.request
-      const res: boolean = await bot.provisionUserRoles(id, assign, revoke)
-      callback(null, { success: res })
-    }
+    watch: (call: StreamCall) => watchHealth(bot, call)
   })
 
-  server.bind(`0.0.0.0:${process.env.GRPC_PORT!}`, grpc.ServerCredentials.createInsecure())
+  if (!apiKeysConfigured()) {
+    if (!Env.GRPC_ALLOW_UNAUTHENTICATED) {
+      throw new Error('the gRPC server requires GRPC_API_KEYS, or GRPC_ALLOW_UNAUTHENTICATED=true to run without them')
+    }
+    log.warn('gRPC server is not checking API keys because GRPC_ALLOW_UNAUTHENTICATED is set')
+  }
+
+  const address: string = `${Env.GRPC_HOST}:${Env.GRPC_PORT}`
+  if (server.bind(address, credentials()) === 0) throw new Error(`the gRPC server could not bind to ${address}`)
   return server
 }
+
+/**
+ * Creates the credentials of the server, using TLS when a certificate and key are
+ * configured and also requiring clients to present a certificate signed by the CA
+ * for mutual TLS when one is configured, or an insecure connection otherwise
+ * @returns {grpc.ServerCredentials}
+ */
+function credentials(): grpc.ServerCredentials {
+  if (!Env.GRPC_TLS_CERT || !Env.GRPC_TLS_KEY) {
+    log.warn('gRPC server is not using TLS, set GRPC_TLS_CERT and GRPC_TLS_KEY to enable it')
+    return grpc.ServerCredentials.createInsecure()
+  }
+
+  const pair: grpc.KeyCertPair = {
+    cert_chain: readFileSync(Env.GRPC_TLS_CERT),
+    private_key: readFileSync(Env.GRPC_TLS_KEY)
+  }
+  const ca: Buffer | null = Env.GRPC_TLS_CA ? readFileSync(Env.GRPC_TLS_CA) : null
+
+  log.sys(`gRPC server is using ${ca ? 'mutual TLS' : 'TLS'}`)
+  return grpc.ServerCredentials.createSsl(ca, [pair], ca !== null)
+}
+
+/**
+ * Streams the events of the member feed to the client as they are published, first
+ * replaying the events after the `since` sequence number when it is set so that a
+ * client can resume where it left off. The call fails as out of range when some of
+ * those events are no longer kept, and the client should then resync with `Get`.
+ * @param {StreamCall} call
+ */
+function watch(call: StreamCall) {
+  const since: number = call.request.since || 0
+  const missed: MemberEvent[] | null = since > 0 ? Feed.since(since) : []
+
+  if (missed === null) {
+    const message: string = `events after ${since} are no longer available, the feed is at ${Feed.sequence}`
+    call.emit('error', { name: 'OutOfRange', message, code: grpc.status.OUT_OF_RANGE })
+    return
+  }
+
+  missed.forEach(e => call.write(e))
+  const unsubscribe = Feed.subscribe(e => call.write(e))
+  log.debug(`GRPC_WATCH: replayed ${missed.length} events after ${since}`, { correlationId: callId(call) })
+
+  const end = () => {
+    unsubscribe()
+    log.debug('GRPC_WATCH: ended', { correlationId: callId(call) })
+  }
+  call.on('cancelled', end)
+  call.on('error', end)
+}
+
+/**
+ * Returns the serving status of the services for the health checks, which
+ * are only serving while the bot is ready to handle calls
+ * @param {Bot} bot
+ * @returns {('SERVING' | 'NOT_SERVING')}
+ */
+function servingStatus(bot: Bot): 'SERVING' | 'NOT_SERVING' {
+  return bot.health().ready ? 'SERVING' : 'NOT_SERVING'
+}
+
+/**
+ * Streams the serving status of a service to the client, sending the current status
+ * and then each time it changes. A service that isn't known is reported once as unknown.
+ * @param {Bot} bot
+ * @param {StreamCall} call
+ */
+function watchHealth(bot: Bot, call: StreamCall) {
+  const { service = '' } = call.request
+  if (!HEALTH_SERVICES.includes(service)) {
+    call.write({ status: 'SERVICE_UNKNOWN' })
+    return
+  }
+
+  let last: string | null = null
+  const check = () => {
+    const status: string = servingStatus(bot)
+    if (status !== last) call.write({ status })
+    last = status
+  }
+
+  check()
+  const timer: NodeJS.Timer = setInterval(check, HEALTH_WATCH_MS)
+  call.on('cancelled', () => clearInterval(timer))
+  call.on('error', () => clearInterval(timer))
+}
+
+/**
+ * Converts an error thrown while handling a call into the status the call fails with,
+ * reporting query and messaging errors with their own code and logging anything else as internal
+ * @param {string} method
+ * @param {Error} e
+ * @param {ServiceCall} call
+ * @returns {grpc.ServiceError}
+ */
+function failure(method: string, e: Error, call: ServiceCall): grpc.ServiceError {
+  if (e instanceof QueryError || e instanceof MessagingError) {
+    return { name: e.name, message: e.message, code: grpc.status[e.code] }
+  }
+
+  log.error(`GRPC_${method}: ${e.message}`, { correlationId: callId(call) })
+  return { name: e.name, message: e.message, code: grpc.status.INTERNAL }
+}
+
+/**
+ * Wraps a service handler to require the API key of a configured client in the call
+ * metadata, rejecting the call as unauthenticated and auditing it if it's missing or
+ * unknown. Calls are only let through without a key when unauthenticated calls are allowed.
+ * Like the JSON API, calls fail as unavailable until the bot is ready to handle them.
+ * @param {Bot} bot
+ * @param {string} method
+ * @param {ServiceHandler} handler
+ * @returns {ServiceHandler}
+ */
+function authenticated(bot: Bot, method: string, handler: ServiceHandler): ServiceHandler {
+  return (call: ServiceCall, callback: ServiceCallback) => {
+    const rejection: grpc.ServiceError | null = authenticate(bot, method, call) || unavailable(bot)
+    if (rejection) return callback(rejection, null)
+    return handler(call, callback)
+  }
+}
+
+/**
+ * Wraps a streaming service handler to require the API key of a configured client and
+ * the bot to be ready in the same way as `authenticated`, failing the stream otherwise
+ * so that a resumed stream isn't told its events are gone before the feed has loaded
+ * @param {Bot} bot
+ * @param {string} method
+ * @param {StreamHandler} handler
+ * @returns {StreamHandler}
+ */
+function authenticatedStream(bot: Bot, method: string, handler: StreamHandler): StreamHandler {
+  return (call: StreamCall) => {
+    const rejection: grpc.ServiceError | null = authenticate(bot, method, call) || unavailable(bot)
+    if (rejection) call.emit('error', rejection)
+    else handler(call)
+  }
+}
+
+/**
+ * Returns the error to fail a call with while the bot isn't ready to handle calls, or null once it is
+ * @param {Bot} bot
+ * @returns {(grpc.ServiceError | null)}
+ */
+function unavailable(bot: Bot): grpc.ServiceError | null {
+  if (bot.health().ready) return null
+  return { name: 'Unavailable', message: 'the bot is not ready to handle calls', code: grpc.status.UNAVAILABLE }
+}
+
+/**
+ * Checks the API key in the metadata of the call, returning the error to reject
+ * it with and auditing it if the key is missing or unknown, or null to let it through
+ * @param {Bot} bot
+ * @param {string} method
+ * @param {(ServiceCall | StreamCall)} call
+ * @returns {(grpc.ServiceError | null)}
+ */
+function authenticate(bot: Bot, method: string, call: ServiceCall | StreamCall): grpc.ServiceError | null {
+  if (!apiKeysConfigured()) {
+    log.debug(`GRPC_CALL: ${method}`, { correlationId: callId(call) })
+    return null
+  }
+
+  const [key] = call.metadata.get(API_KEY_HEADER)
+  const client: string | undefined = key ? apiClient(key.toString()) : undefined
+
+  if (!client) {
+    const reason: string = key ? 'unknown API key' : `missing the \`${API_KEY_HEADER}\` metadata`
+    bot.logRejectedCall(method, call.getPeer(), reason)
+    return { name: 'Unauthenticated', message: reason, code: grpc.status.UNAUTHENTICATED }
+  }
+
+  log.info(`GRPC_CALL: ${method} from ${client}`, { correlationId: callId(call) })
+  return null
+}
+
+/**
+ * Returns the ID that correlates the log entries of the call, which is the one the client
+ * sent in the `x-request-id` metadata or a new one that is kept for the rest of the call
+ * @param {(ServiceCall | StreamCall)} call
+ * @returns {string}
+ */
+function callId(call: ServiceCall | StreamCall): string {
+  if (!callIds.has(call)) {
+    const [sent] = call.metadata.get(CORRELATION_HEADER)
+    callIds.set(call, sent ? sent.toString().slice(0, 64) : correlationId())
+  }
+
+  return callIds.get(call)!
+}
@@ -0,0 +1,298 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http'
+import { URL, URLSearchParams } from 'url'
+import { Bot } from './bot'
+import { HealthReport } from './lib/health'
+import { renderMetrics } from './lib/metrics'
+import { API_KEY_HEADER, apiClient, apiKeysConfigured } from './lib/apikeys'
+import { ProvisionResult, QueryError, UserRoleSets } from './lib/provisioning'
+import { CORRELATION_HEADER, LogFields, correlationId, moduleLogger } from './lib/logger'
+
+const log = moduleLogger('http')
+
+/**
+ * Type definition for a request to a route, with the groups matched in its path
+ */
+type Request = {
+  params: string[]
+  query: URLSearchParams
+  body: unknown
+}
+
+/**
+ * Type definition for the handler of an HTTP route, returning the status code and body of the response,
+ * which is sent as JSON unless it is text
+ */
+type RouteHandler = (bot: Bot, req: Request) => [number, object | string] | Promise<[number, object | string]>
+
+/**
+ * Type definition for an HTTP route. Routes of the JSON API are `authenticated`, requiring an API key
+ * in the same way as the gRPC services, need the bot to be ready and are only served by the API server.
+ */
+type Route = {
+  method: 'GET' | 'POST'
+  path: RegExp
+  handler: RouteHandler
+  authenticated?: boolean
+}
+
+/**
+ * Error thrown while handling an HTTP request, with the gRPC status code name
+ * that is reported in the error body and the HTTP status it is sent with
+ */
+class HttpError extends Error {
+  public readonly status: number
+  public readonly code: string
+
+  constructor(status: number, code: string, message: string) {
+    super(message)
+    this.name = 'HttpError'
+    this.status = status
+    this.code = code
+    Object.setPrototypeOf(this, HttpError.prototype)
+  }
+}
+
+/**
+ * HTTP statuses that the gRPC status codes of errors are sent with
+ */
+const HTTP_STATUSES: Record<string, number> = {
+  INVALID_ARGUMENT: 400,
+  FAILED_PRECONDITION: 400,
+  NOT_FOUND: 404
+}
+
+/**
+ * Largest request body in bytes that is read
+ */
+const MAX_BODY_BYTES: number = 64 * 1024
+
+/**
+ * The health, readiness, version and metrics endpoints and the JSON API mirroring the `ProvisionService`
+ */
+const ROUTES: Route[] = [
+  {
+    method: 'GET',
+    path: /^\/healthz$/,
+    handler: bot => {
+      const report: HealthReport = bot.health()
+      return [report.live ? 200 : 503, report]
+    }
+  },
+  {
+    method: 'GET',
+    path: /^\/readyz$/,
+    handler: bot => {
+      const report: HealthReport = bot.health()
+      return [report.ready ? 200 : 503, report]
+    }
+  },
+  { method: 'GET', path: /^\/version$/, handler: () => [200, { version: Bot.VERSION }] },
+  { method: 'GET', path: /^\/metrics$/, handler: () => [200, renderMetrics()] },
+  {
+    method: 'GET',
+    path: /^\/v1\/users$/,
+    authenticated: true,
+    handler: (bot, { query }) => {
+      const ids: string[] = [...query.getAll('id'), ...query.getAll('ids')]
+        .reduce((acc: string[], i: string) => [...acc, ...i.split(',')], [])
+        .map((i: string) => i.trim())
+        .filter((i: string) => i)
+      const pageSize: string = query.get('pageSize') || ''
+      if (pageSize && !/^\d+$/.test(pageSize)) {
+        throw new HttpError(400, 'INVALID_ARGUMENT', 'pageSize must be a whole number')
+      }
+
+      const res: UserRoleSets = bot.getUserRoles({
+        ids,
+        roles: query.getAll('roles'),
+        pageSize: pageSize ? parseInt(pageSize) : undefined,
+        pageToken: query.get('pageToken') || undefined
+      })
+      return [200, res]
+    }
+  },
+  {
+    method: 'POST',
+    path: /^\/v1\/users\/(\d+)\/roles$/,
+    authenticated: true,
+    handler: async (bot, { params: [id], body }): Promise<[number, object]> => {
+      if (!isObject(body)) throw new HttpError(400, 'INVALID_ARGUMENT', 'the request body must be a JSON object')
+
+      const { assign = [], revoke = [], dryRun = false } = body
+      if (!isStringArray(assign) || !isStringArray(revoke)) {
+        throw new HttpError(400, 'INVALID_ARGUMENT', 'assign and revoke must be arrays of role IDs or names')
+      }
+      if (typeof dryRun !== 'boolean') throw new HttpError(400, 'INVALID_ARGUMENT', 'dryRun must be a boolean')
+
+      const { success, deferred }: ProvisionResult = await bot.provisionUserRoles(id, assign, revoke, dryRun)
+      return [200, { success, deferred }]
+    }
+  }
+]
+
+/**
+ * Initialize the public HTTP server for the health, readiness, version and metrics endpoints, or the
+ * API server for the JSON API when `api` is set, which are started before the bot logs in so that
+ * they can be probed while it connects
+ * @export
+ * @param {Bot} bot
+ * @param {boolean} [api=false]
+ * @returns {Server}
+ */
+export function init(bot: Bot, api: boolean = false): Server {
+  const served: Route[] = ROUTES.filter(r => !!r.authenticated === api)
+
+  return createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    const url: URL = new URL(req.url || '/', 'http://localhost')
+    const method: string = req.method === 'HEAD' ? 'GET' : req.method || 'GET'
+    const sent: string | string[] | undefined = req.headers[CORRELATION_HEADER]
+    const fields: LogFields = { correlationId: typeof sent === 'string' ? sent.slice(0, 64) : correlationId() }
+    res.setHeader('X-Request-Id', fields.correlationId!)
+
+    try {
+      const routes: Route[] = served.filter(r => r.path.test(url.pathname))
+      if (routes.length === 0) throw new HttpError(404, 'NOT_FOUND', `${url.pathname} not found`)
+
+      const route: Route | undefined = routes.find(r => r.method === method)
+      if (!route) {
+        res.setHeader('Allow', [...new Set(routes.map(r => r.method))].join(', '))
+        throw new HttpError(405, 'UNIMPLEMENTED', `${req.method} is not allowed on ${url.pathname}`)
+      }
+
+      if (route.authenticated) {
+        authenticate(bot, `${method} ${url.pathname}`, req, fields)
+        if (!bot.health().ready) throw new HttpError(503, 'UNAVAILABLE', 'the bot is not ready to handle requests')
+      }
+
+      const params: string[] = route.path.exec(url.pathname)!.slice(1)
+      const body: unknown = method === 'POST' ? await readBody(req) : null
+      const [status, payload] = await route.handler(bot, { params, query: url.searchParams, body })
+      respond(res, status, req.method === 'HEAD' ? null : payload)
+      log.debug(`HTTP ${req.method} ${url.pathname} - ${status}`, fields)
+    } catch (e) {
+      const error: HttpError = failure(url.pathname, e, fields)
+      respond(res, error.status, { error: { code: error.code, message: error.message } })
+      log.debug(`HTTP ${req.method} ${url.pathname} - ${error.status}`, fields)
+    }
+  })
+}
+
+/**
+ * Checks the API key in the header of the request in the same way as the gRPC services,
+ * auditing the request and throwing an unauthenticated error if the key is missing or unknown.
+ * The JSON API is unavailable until API keys are configured.
+ * @throws {HttpError}
+ * @param {Bot} bot
+ * @param {string} method
+ * @param {IncomingMessage} req
+ * @param {LogFields} fields
+ */
+function authenticate(bot: Bot, method: string, req: IncomingMessage, fields: LogFields) {
+  if (!apiKeysConfigured())
+    throw new HttpError(503, 'UNAVAILABLE', 'the JSON API is disabled until GRPC_API_KEYS is set')
+
+  const key: string | string[] | undefined = req.headers[API_KEY_HEADER]
+  const client: string | undefined = typeof key === 'string' ? apiClient(key) : undefined
+
+  if (!client) {
+    const reason: string = key ? 'unknown API key' : `missing the \`${API_KEY_HEADER}\` header`
+    bot.logRejectedCall(method, req.socket.remoteAddress || 'unknown', reason)
+    throw new HttpError(401, 'UNAUTHENTICATED', reason)
+  }
+
+  log.info(`HTTP_CALL: ${method} from ${client}`, fields)
+}
+
+/**
+ * Reads the JSON body of the request, failing for bodies that are too large or aren't valid JSON
+ * @async
+ * @throws {HttpError}
+ * @param {IncomingMessage} req
+ * @returns {Promise<unknown>}
+ */
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const raw: string = await new Promise<string>((resolve, reject) => {
+    let data: string = ''
+    req.on('data', chunk => {
+      data += chunk
+      if (data.length > MAX_BODY_BYTES) {
+        // The rest of the body is drained so that the error can still be sent
+        req.removeAllListeners('data')
+        req.resume()
+        reject(new HttpError(413, 'INVALID_ARGUMENT', 'the request body is too large'))
+      }
+    })
+    req.on('end', () => resolve(data))
+    req.on('error', reject)
+  })
+
+  try {
+    return raw ? JSON.parse(raw) : {}
+  } catch (e) {
+    throw new HttpError(400, 'INVALID_ARGUMENT', 'the request body is not valid JSON')
+  }
+}
+
+/**
+ * Converts an error thrown while handling a request into the error it is reported as,
+ * reporting query errors with their own code and logging anything else as internal
+ * @param {string} path
+ * @param {Error} e
+ * @param {LogFields} fields
+ * @returns {HttpError}
+ */
+function failure(path: string, e: Error, fields: LogFields): HttpError {
+  if (e instanceof HttpError) return e
+  if (e instanceof QueryError) return new HttpError(HTTP_STATUSES[e.code], e.code, e.message)
+
+  log.error(`HTTP ${path}: ${e.message}`, fields)
+  return new HttpError(500, 'INTERNAL', e.message)
+}
+
+/**
+ * Returns whether the value is a JSON object
+ * @param {unknown} value
+ * @returns {boolean}
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Returns whether the value is an array of strings
+ * @param {unknown} value
+ * @returns {boolean}
+ */
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string')
+}
+
+/**
+ * Writes the response with the status code and the body as JSON, or as
+ * text in the Prometheus exposition format when the body is text
+ * @param {ServerResponse} res
+ * @param {number} status
+ * @param {(object | string | null)} body
+ */
+function respond(res: ServerResponse, status: number, body: object | string | null) {
+  const type: string = typeof body === 'string' ? 'text/plain; version=0.0.4' : 'application/json'
+  res.writeHead(status, { 'Content-Type': type, 'Cache-Control': 'no-store' })
+  res.end(body === null ? undefined : typeof body === 'string' ? body : JSON.stringify(body))
+}
@@ -18,69 +18,41 @@
 require('dotenv').config()
 import { Bot } from './bot'
 import * as server from './grpc'
-import * as cmd from './lib/commands'
-import { Env } from './lib/state'
-import { admins, disabled } from './lib/access'
+import * as http from './http'
+import { registerCommands } from './lib/commands'
+import { Env, validateEnvironment } from './lib/state'
 import * as log from './lib/logger'
 
 process.on('unhandledRejection', (reason: any, _promise: Promise<any>) => {
   log.error(`Unhandled Rejection ${reason.stack || reason}`)
 })
 
+// Report every missing or malformed variable at once before connecting
+const configErrors: string[] = validateEnvironment(process.env)
+if (configErrors.length > 0) {
+  log.error(`Invalid configuration, fix the following environment variables and restart:`)
+  configErrors.forEach(e => log.error(`  - ${e}`))
+  process.exit(1)
+}
+
 const { version } = require('../package.json')
-const bot = new Bot(version)
+const bot = registerCommands(new Bot(version))
+
+http
+  .init(bot)
+  .on('error', err => log.error(`HTTP: ${err.message}`))
+  .listen(Env.HTTP_PORT, Env.HTTP_HOST, () => log.sys(`HTTP server running on :${Env.HTTP_PORT}`))
+
+http
+  .init(bot, true)
+  .on('error', err => log.error(`HTTP API: ${err.message}`))
+  .listen(Env.API_PORT, Env.API_HOST, () => log.sys(`HTTP API server running on ${Env.API_HOST}:${Env.API_PORT}`))
+
 bot
-  .addCommand('about', '`!about`: _display information about the bot_', cmd.about)
-  .addCommand('alerts', '`!alerts`: _display the pending alerts that are scheduled in the bot_', cmd.alerts, admins)
-  .addCommand('announce', '`!announce`: _send update message to general channel for the bot_', cmd.announce, admins)
-  .addCommand('events', '`!events`: _displays all pending community events_', cmd.events, disabled)
-  .addCommand(
-    'flight',
-    '`!flight list | create <SIM> <HH:MM> <MM/DD> <details> | join <id> | delete <id>`: _manage pickup flights for UOAF_',
-    cmd.flight
-  )
-  .addCommand(
-    'lfg',
-    '`!lfg list | create <# needed> <name> | join <id> | delete <id>`: _looking for group functionality to find people to play a game with_',
-    cmd.lfg
-  )
-  .addCommand(
-    'missions',
-    '`!missions <name>`: _search for mission on the forums API with names that fully or partially match the argued name_',
-    cmd.missions,
-    disabled
-  )
-  .addCommand('polls', '`!polls`: _get a list of the active polls/voting threads on the forums_', cmd.polls, disabled) // Regulars only
-  .addCommand(
-    'primary',
-    '`!primary`: _get the information about the current mission on the A3 primary_',
-    cmd.primary,
-    disabled
-  )
-  .addCommand('ratio', '`!ratio <total> <a> <b>`: _calculate the player ratio for teams with A:B_', cmd.ratio)
-  .addCommand(
-    'ready',
-    '`!ready <#> | count`: _receive an alert from the bot when the primary server reaches a certain player count or see how many users are waiting for alerts_',
-    cmd.ready,
-    disabled
-  )
-  .addCommand(
-    'role',
-    '`!role add | remove <group>`: _assign or remove a Discord role if it exists and is in the permitted list_',
-    cmd.role
-  )
-  .addCommand('shutdown', '`!shutdown`: _turns off the Discord bot with the correct permissions_', cmd.shutdown, admins)
-  .addCommand('sqf', '`!sqf <command>`: _search the BIS wiki for information about an SQF command_', cmd.sqf)
-  .addCommand(
-    'sqfp',
-    '`!sqfp <command>`: _search BIS wiki for information about an SQF command and post the result publicly_',
-    cmd.sqfp
-  )
-  .addCommand('stats', '`!stats`: _view runtime statistics about the bot_', cmd.stats, admins)
-  .addCommand('user', '`!user <username>`: _view authentication information for a given user_', cmd.user, admins)
   .start(Env.BOT_TOKEN)
   .then(() => {
     server.init(bot).start()
-    log.sys(`gRPC server running on :${process.env.GRPC_PORT!}`)
+    bot.serving(`${Env.GRPC_HOST}:${Env.GRPC_PORT}`)
+    log.sys(`gRPC server running on :${Env.GRPC_PORT}`)
   })
   .catch(err => log.error(`START: ${err}`))
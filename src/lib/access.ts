@@ -15,67 +15,206 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Message, Guild } from 'discord.js'
-import { Env } from './state'
+import { Env, Policies, CommandPolicy, Toggles, CommandState, SETTINGS, SettingKey } from './state'
 import { BotAction } from '../bot'
+import { CommandContext, GuildContext, MemberContext, RoleContext } from './context'
+import { PermissionLevel, hasLevel, hasRole, levelName, resolveRole, rolesAtLeast } from './permissions'
 
-const permissionsError: string = 'invalid user permissions'
+const permissionsError: string = 'PERMISSION_DENIED'
 
 /**
- * Custom type for casting a function to an access modifier for commands
+ * Custom type for casting a function to an access modifier for commands.
+ * The `permits` check is used to determine whether a user is able to run
+ * a command without running it and `requirement` describes it to users
+ * of the guild.
  * @export
+ * @interface CommandProvision
  */
-export type CommandProvision = (fn: BotAction) => BotAction
+export interface CommandProvision {
+  (fn: BotAction): BotAction
+  permits: (guild: GuildContext, member: MemberContext) => boolean
+  requirement: (guild: GuildContext) => string
+}
 
 /**
- * Role permission wrappers for bot action functions using
+ * Permission level wrappers for bot action functions using
  * the `permissioned` currying function
  * @exports
  */
-export const admins: CommandProvision = permissioned(Env.ADMIN_ROLES)
-Object.defineProperty(admins, 'name', {
-  value: 'admins'
-})
+export const admins: CommandProvision = permissioned('admins', 'admin')
+
+export const officers: CommandProvision = permissioned('officers', 'officer')
 
-export const regulars: CommandProvision = permissioned(['Regulars', ...Env.ADMIN_ROLES])
-Object.defineProperty(regulars, 'name', {
-  value: 'regulars'
-})
+export const regulars: CommandProvision = permissioned('regulars', 'regular')
 
 /**
- * Currying function to assign groups into different permissioned
- * controller for BotAction functions
- * @param {string[]} group
- * @returns {(BotAction) => BotAction}
+ * Currying function to assign permission levels into different permissioned
+ * controller for BotAction functions. The roles of the level are resolved for the
+ * guild on each check so that role changes made through `!config` apply immediately.
+ * @param {string} name
+ * @param {PermissionLevel} level
+ * @returns {CommandProvision}
  */
-function permissioned(group: string[]): (fn: BotAction) => BotAction {
-  return (fn: BotAction): BotAction => {
-    return async (guild: Guild, msg: Message, args: string[]): Promise<string> => {
+function permissioned(name: string, level: PermissionLevel): CommandProvision {
+  const permits = (guild: GuildContext, member: MemberContext): boolean => hasLevel(guild, member, level)
+
+  const provision = (fn: BotAction): BotAction => {
+    return async (ctx: CommandContext, args: string[]): Promise<string> => {
       // Check if the calling user has permission to call command
-      for (const g of group) {
-        if (guild.member(msg.author).roles.find(r => r.name === g) !== null) {
-          return await fn(guild, msg, args)
-        }
+      if (permits(ctx.guild, ctx.invoker)) {
+        return await fn(ctx, args)
       }
 
       // If they don't have admin permissions
-      await msg.author.send(`You don't have permission to run this command!`)
+      await ctx.dm(`You don't have permission to run this command!`)
       return permissionsError
     }
   }
+
+  const requirement = (guild: GuildContext): string =>
+    `${levelName(level)} level, roles: ${rolesAtLeast(guild, level)
+      .map(r => r.name)
+      .join(', ') || 'none configured'}`
+
+  Object.defineProperty(provision, 'name', { value: name })
+  return Object.assign(provision, { permits, requirement })
 }
 
 /**
- * Function decorator to deprecate a command temporarily or mark
- * as broken during production
+ * Marks a command that is deprecated temporarily or broken during production
+ * to be added to the bot disabled. Whether a command is disabled is checked
+ * when it is dispatched so that admins can enable it at runtime with `!command`,
+ * so the command itself is left unwrapped.
  * @export
  * @param {BotAction} cmd
  * @returns {BotAction}
  */
-export function disabled(cmd: BotAction): BotAction {
-  return async (_guild: Guild, msg: Message, _args: string[]): Promise<string> => {
-    const output: string = `The \`${cmd.name}\` command is currently broken or temporaryily disabled. Please contact the developers or post a GitHub issue at the link found by running \`!?\`.`
-    await msg.author.send(output)
-    return output
+export const disabled: CommandProvision = Object.assign(
+  function disabled(cmd: BotAction): BotAction {
+    return cmd
+  },
+  {
+    permits: (_guild: GuildContext, _member: MemberContext): boolean => true,
+    requirement: (_guild: GuildContext): string => 'Everyone'
+  }
+)
+
+/**
+ * Returns the explanation to give the invoker of the context if the command
+ * is disabled in the guild, including the reason it was disabled for, or null if it is enabled
+ * @export
+ * @param {CommandContext} ctx
+ * @param {string} command
+ * @returns {(string | null)}
+ */
+export function disabledNotice(ctx: CommandContext, command: string): string | null {
+  const state: CommandState = Toggles.get(ctx.guild.id, command)
+  if (!state.disabled) return null
+
+  const prefix: string = Env.guild(ctx.guild.id).PREFIX
+  const cmd: string = `\`${prefix}${command}\``
+  const help: string = `Please contact the developers or post a GitHub issue at the link found by running \`${prefix}?\`.`
+  return state.reason
+    ? `The ${cmd} command is currently disabled: ${state.reason}. ${help}`
+    : `The ${cmd} command is currently broken or temporarily disabled. ${help}`
+}
+
+/**
+ * Resolves a channel of a command policy, which is either a channel ID or the
+ * name of a channel setting, to the channel ID in the guild. A setting that is
+ * not configured for the guild resolves to an empty string.
+ * @export
+ * @param {string} guild
+ * @param {string} channel
+ * @returns {string}
+ */
+export function policyChannel(guild: string, channel: string): string {
+  const setting = SETTINGS[channel as SettingKey]
+  return setting && setting.type === 'channel' ? Env.raw(guild, channel as SettingKey) : channel
+}
+
+/**
+ * Returns the IDs of the channels that the policy allows its command to be sent in
+ * within the guild, or an empty list if it can be sent in any channel
+ * @export
+ * @param {string} guild
+ * @param {CommandPolicy} policy
+ * @returns {string[]}
+ */
+export function policyChannels(guild: string, policy: CommandPolicy): string[] {
+  return (policy.channels || []).map(c => policyChannel(guild, c)).filter(c => c !== '')
+}
+
+/**
+ * Checks the invoker and channel of the context against the policy of the command
+ * in the guild, returning the explanation to give the invoker if they aren't allowed
+ * to run it or null if they are. Channel restrictions only apply to commands sent in
+ * a channel of the guild and not to those sent by direct message.
+ * @export
+ * @param {CommandContext} ctx
+ * @param {string} command
+ * @returns {(string | null)}
+ */
+export function policyDenial(ctx: CommandContext, command: string): string | null {
+  const denial: string | null = memberDenial(ctx.guild, ctx.invoker, command)
+  if (denial || !ctx.channel) return denial
+
+  const channels: string[] = restrictedChannels(ctx.guild, ctx.invoker, command)
+  if (channels.length === 0 || channels.includes(ctx.channel.id)) return null
+
+  const cmd: string = `\`${Env.guild(ctx.guild.id).PREFIX}${command}\``
+  return `${cmd} can only be used in ${channels.map(id => channelMention(ctx.guild, id)).join(', ')}.`
+}
+
+/**
+ * Returns the explanation to give the member if the policy of the command
+ * denies them or one of their roles from running it, or null if it doesn't
+ * @export
+ * @param {GuildContext} guild
+ * @param {MemberContext} member
+ * @param {string} command
+ * @returns {(string | null)}
+ */
+export function memberDenial(guild: GuildContext, member: MemberContext, command: string): string | null {
+  const policy: CommandPolicy = Policies.get(guild.id, command)
+  const cmd: string = `\`${Env.guild(guild.id).PREFIX}${command}\``
+
+  if ((policy.deniedUsers || []).includes(member.id)) return `You are not allowed to use ${cmd}.`
+
+  const deniedRole: string | undefined = (policy.deniedRoles || []).find(r => hasRole(guild, member, r))
+  if (deniedRole) {
+    const role: RoleContext | null = resolveRole(guild, deniedRole)
+    return `Members with the **${role ? role.name : deniedRole}** role are not allowed to use ${cmd}.`
   }
+
+  return null
+}
+
+/**
+ * Returns the IDs of the channels that the policy of the command restricts the member
+ * to, or an empty list if they can use it in any channel because it isn't restricted
+ * or they have one of the roles that are allowed to use it anywhere
+ * @export
+ * @param {GuildContext} guild
+ * @param {MemberContext} member
+ * @param {string} command
+ * @returns {string[]}
+ */
+export function restrictedChannels(guild: GuildContext, member: MemberContext, command: string): string[] {
+  const policy: CommandPolicy = Policies.get(guild.id, command)
+  if ((policy.allowedRoles || []).some(r => hasRole(guild, member, r))) return []
+  return policyChannels(guild.id, policy)
+}
+
+/**
+ * Returns the mention of the channel in the guild, falling back to
+ * the Discord mention format if the channel doesn't exist
+ * @export
+ * @param {GuildContext} guild
+ * @param {string} id
+ * @returns {string}
+ */
+export function channelMention(guild: GuildContext, id: string): string {
+  const channel = guild.channel(id)
+  return channel ? channel.mention : `<#${id}>`
 }
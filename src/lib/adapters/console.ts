@@ -0,0 +1,356 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Env, SETTINGS, SettingKey } from '../state'
+import { CommandContext, GuildContext, MemberContext, RoleContext, ChannelContext, ReplyContent } from '../context'
+
+/**
+ * Type definition for the function that writes console output
+ * @export
+ */
+export type Printer = (text: string) => void
+
+/**
+ * Role names given to the simulated guild for role settings that are not configured
+ * @export
+ */
+export const SIMULATED_ROLES: Partial<Record<SettingKey, string>> = {
+  ADMIN_ROLES: 'Admin',
+  ALLOWED_GROUPS: 'ArmA,BMS',
+  OFFICER_ROLES: 'Officer',
+  ARMA_PLAYER_ROLE: 'ArmA',
+  BMS_PLAYER_ROLE: 'BMS'
+}
+
+/**
+ * Member of the simulated guild whose roles are kept in memory
+ * @export
+ * @class SimulatedMember
+ * @implements MemberContext
+ * @property {string} id
+ * @property {string} username
+ * @property {RoleContext[]} roles
+ */
+export class SimulatedMember implements MemberContext {
+  public readonly id: string
+  public readonly username: string
+  public roles: RoleContext[] = []
+
+  /**
+   * Creates an instance of SimulatedMember
+   * @param {string} id
+   * @param {string} username
+   * @memberof SimulatedMember
+   */
+  constructor(id: string, username: string) {
+    this.id = id
+    this.username = username
+  }
+
+  /**
+   * Gives the role to the member if they don't already have it
+   * @async
+   * @param {RoleContext} role
+   * @memberof SimulatedMember
+   */
+  async addRole(role: RoleContext) {
+    if (!this.roles.some(r => r.id === role.id)) this.roles.push(role)
+  }
+
+  /**
+   * Takes the role away from the member
+   * @async
+   * @param {RoleContext} role
+   * @memberof SimulatedMember
+   */
+  async removeRole(role: RoleContext) {
+    this.roles = this.roles.filter(r => r.id !== role.id)
+  }
+
+  /**
+   * Gives each of the roles to the member
+   * @async
+   * @param {RoleContext[]} roles
+   * @memberof SimulatedMember
+   */
+  async addRoles(roles: RoleContext[]) {
+    for (const role of roles) await this.addRole(role)
+  }
+
+  /**
+   * Takes each of the roles away from the member
+   * @async
+   * @param {RoleContext[]} roles
+   * @memberof SimulatedMember
+   */
+  async removeRoles(roles: RoleContext[]) {
+    for (const role of roles) await this.removeRole(role)
+  }
+}
+
+/**
+ * In memory guild for running commands from the terminal without connecting to Discord.
+ * Messages sent to its channels and members are written with the printer.
+ * @export
+ * @class SimulatedGuild
+ * @implements GuildContext
+ * @property {string} id
+ * @property {string} name
+ * @property {Printer} _print
+ * @property {number} _nextId
+ * @property {Map<string, ChannelContext>} _channels
+ * @property {Map<string, RoleContext>} _roles
+ * @property {Map<string, SimulatedMember>} _members
+ */
+export class SimulatedGuild implements GuildContext {
+  public readonly id: string
+  public readonly name: string
+  private _print: Printer
+  private _nextId: number = 1000
+  private _channels: Map<string, ChannelContext> = new Map()
+  private _roles: Map<string, RoleContext> = new Map()
+  private _members: Map<string, SimulatedMember> = new Map()
+
+  /**
+   * Creates an instance of SimulatedGuild
+   * @param {string} id
+   * @param {string} name
+   * @param {Printer} print
+   * @memberof SimulatedGuild
+   */
+  constructor(id: string, name: string, print: Printer) {
+    this.id = id
+    this.name = name
+    this._print = print
+  }
+
+  /**
+   * Creates a simulated guild with a channel for each channel setting and the
+   * roles of each role setting. Settings that aren't configured for the guild
+   * are overridden in memory, without being persisted, to point at the
+   * simulated channels and the `SIMULATED_ROLES` so every command can run.
+   * @static
+   * @param {string} id
+   * @param {string} name
+   * @param {Printer} print
+   * @returns {SimulatedGuild}
+   * @memberof SimulatedGuild
+   */
+  static fromSettings(id: string, name: string, print: Printer): SimulatedGuild {
+    const guild = new SimulatedGuild(id, name, print)
+
+    for (const key of Object.keys(SETTINGS) as SettingKey[]) {
+      const { type } = SETTINGS[key]
+      const raw: string = Env.raw(id, key)
+
+      if (type === 'channel') {
+        const channel: ChannelContext = guild.addChannel(key.replace(/_CHANNEL$/, '').toLowerCase(), raw || undefined)
+        if (!raw) Env.override(id, key, channel.id)
+      } else if (type === 'role' || type === 'roles') {
+        const value: string = raw || SIMULATED_ROLES[key] || ''
+        if (!raw && value) Env.override(id, key, value)
+        for (const role of value.split(',').map(r => r.trim())) {
+          if (role) guild.addRole(role)
+        }
+      }
+    }
+
+    return guild
+  }
+
+  /**
+   * Adds a text channel to the guild that prints the messages sent to it
+   * @param {string} name
+   * @param {string} [id]
+   * @returns {ChannelContext}
+   * @memberof SimulatedGuild
+   */
+  addChannel(name: string, id: string = this._id()): ChannelContext {
+    const channel: ChannelContext = {
+      id,
+      name,
+      mention: `#${name}`,
+      send: async content => this._print(`[#${name}] ${renderContent(content)}`)
+    }
+
+    this._channels.set(id, channel)
+    return channel
+  }
+
+  /**
+   * Adds a role to the guild unless one with the name already exists
+   * @param {string} name
+   * @returns {RoleContext}
+   * @memberof SimulatedGuild
+   */
+  addRole(name: string): RoleContext {
+    const existing: RoleContext | undefined = this.roles().find(r => r.name === name)
+    if (existing) return existing
+
+    const id: string = this._id()
+    const role: RoleContext = { id, name, mention: `@${name}`, editable: true, managed: false }
+    this._roles.set(id, role)
+    return role
+  }
+
+  /**
+   * Returns the member with the username, adding them to the guild if they aren't a member
+   * @param {string} username
+   * @returns {SimulatedMember}
+   * @memberof SimulatedGuild
+   */
+  memberNamed(username: string): SimulatedMember {
+    const existing = [...this._members.values()].find(m => m.username.toLowerCase() === username.toLowerCase())
+    if (existing) return existing
+
+    const member = new SimulatedMember(this._id(), username)
+    this._members.set(member.id, member)
+    return member
+  }
+
+  /**
+   * Returns the text channel with the ID
+   * @param {string} id
+   * @returns {(ChannelContext | null)}
+   * @memberof SimulatedGuild
+   */
+  channel(id: string): ChannelContext | null {
+    return this._channels.get(id) || null
+  }
+
+  /**
+   * Returns all of the text channels in the guild
+   * @returns {ChannelContext[]}
+   * @memberof SimulatedGuild
+   */
+  channels(): ChannelContext[] {
+    return [...this._channels.values()]
+  }
+
+  /**
+   * Returns the role with the ID
+   * @param {string} id
+   * @returns {(RoleContext | null)}
+   * @memberof SimulatedGuild
+   */
+  role(id: string): RoleContext | null {
+    return this._roles.get(id) || null
+  }
+
+  /**
+   * Returns all of the roles in the guild
+   * @returns {RoleContext[]}
+   * @memberof SimulatedGuild
+   */
+  roles(): RoleContext[] {
+    return [...this._roles.values()]
+  }
+
+  /**
+   * Returns the member with the ID
+   * @param {string} id
+   * @returns {(SimulatedMember | null)}
+   * @memberof SimulatedGuild
+   */
+  member(id: string): SimulatedMember | null {
+    return this._members.get(id) || null
+  }
+
+  /**
+   * Returns all of the members of the guild
+   * @returns {SimulatedMember[]}
+   * @memberof SimulatedGuild
+   */
+  members(): SimulatedMember[] {
+    return [...this._members.values()]
+  }
+
+  /**
+   * Returns the text channel with the name
+   * @param {string} name
+   * @returns {(ChannelContext | null)}
+   * @memberof SimulatedGuild
+   */
+  channelNamed(name: string): ChannelContext | null {
+    return this.channels().find(c => c.name === name.replace(/^#/, '').toLowerCase()) || null
+  }
+
+  /**
+   * Creates the command context for a command run from the console by the member
+   * as if it was sent in the channel, or by direct message if the channel is null.
+   * Direct messages are printed with the name of the member that receives them.
+   * @param {SimulatedMember} invoker
+   * @param {(ChannelContext | null)} channel
+   * @returns {CommandContext}
+   * @memberof SimulatedGuild
+   */
+  context(invoker: SimulatedMember, channel: ChannelContext | null): CommandContext {
+    const dm = async (id: string, content: ReplyContent) => {
+      const member: SimulatedMember | null = this.member(id)
+      this._print(`[DM to ${member ? member.username : id}] ${renderContent(content)}`)
+    }
+
+    return {
+      origin: 'CLI',
+      guild: this,
+      channel,
+      invoker,
+      reply: content => (channel ? channel.send(content) : dm(invoker.id, content)),
+      dm: content => dm(invoker.id, content),
+      dmUser: dm
+    }
+  }
+
+  /**
+   * Returns the next unused ID for a channel, role or member
+   * @private
+   * @returns {string}
+   * @memberof SimulatedGuild
+   */
+  private _id(): string {
+    return (this._nextId++).toString()
+  }
+}
+
+/**
+ * Renders the reply content as plain text, including the
+ * title, description and fields of an embed message
+ * @export
+ * @param {ReplyContent} content
+ * @returns {string}
+ */
+export function renderContent(content: ReplyContent): string {
+  if (typeof content === 'string') return content
+
+  const { embed } = content
+  const lines: string[] = []
+  if (content.content) lines.push(content.content)
+  if (embed.author) lines.push(embed.author.name)
+  if (embed.title) lines.push(embed.title)
+  if (embed.url) lines.push(embed.url)
+  if (embed.description) lines.push(embed.description)
+  for (const f of embed.fields || [])
+    lines.push(
+      `${f.name}:`,
+      ...f.value
+        .toString()
+        .split('\n')
+        .map(l => `  ${l}`)
+    )
+
+  return lines.join('\n')
+}
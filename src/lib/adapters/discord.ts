@@ -0,0 +1,153 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+  Message,
+  Guild,
+  GuildMember,
+  Role,
+  TextChannel,
+  RichEmbed,
+  PartialTextBasedChannelFields,
+  User
+} from 'discord.js'
+import { CommandContext, GuildContext, MemberContext, RoleContext, ChannelContext, ReplyContent } from '../context'
+import { dmFailures } from '../metrics'
+
+/**
+ * Creates the command context for a message sent through Discord that
+ * runs against the guild, which is the message's guild or the guild
+ * resolved for the author of a direct message
+ * @export
+ * @param {Message} msg
+ * @param {Guild} guild
+ * @returns {CommandContext}
+ */
+export function discordContext(msg: Message, guild: Guild): CommandContext {
+  return {
+    origin: msg.guild ? 'GLD' : 'PM',
+    guild: discordGuild(guild),
+    channel: msg.guild ? discordChannel(msg.channel as TextChannel) : null,
+    invoker: discordMember(guild.member(msg.author)),
+    reply: content => send(msg.channel, content),
+    dm: content => directMessage(msg.author, content),
+    dmUser: async (id, content) => directMessage(await msg.client.fetchUser(id), content)
+  }
+}
+
+/**
+ * Creates the guild context for looking up the channels, roles and members of a Discord guild
+ * @export
+ * @param {Guild} guild
+ * @returns {GuildContext}
+ */
+export function discordGuild(guild: Guild): GuildContext {
+  return {
+    id: guild.id,
+    name: guild.name,
+    channel: id => {
+      const channel = guild.channels.get(id)
+      return channel && channel.type === 'text' ? discordChannel(channel as TextChannel) : null
+    },
+    channels: () => guild.channels.filter(c => c.type === 'text').map(c => discordChannel(c as TextChannel)),
+    role: id => {
+      const role: Role | undefined = guild.roles.get(id)
+      return role ? discordRole(role) : null
+    },
+    roles: () => guild.roles.map(discordRole),
+    member: id => {
+      const member: GuildMember | undefined = guild.members.get(id)
+      return member ? discordMember(member) : null
+    },
+    members: () => guild.members.map(discordMember)
+  }
+}
+
+/**
+ * Creates the member context of a Discord guild member
+ * @param {GuildMember} member
+ * @returns {MemberContext}
+ */
+function discordMember(member: GuildMember): MemberContext {
+  return {
+    id: member.id,
+    username: member.user.username,
+    roles: member.roles.map(discordRole),
+    addRole: async (role, reason) => {
+      await member.addRole(role.id, reason)
+    },
+    removeRole: async (role, reason) => {
+      await member.removeRole(role.id, reason)
+    },
+    addRoles: async (roles, reason) => {
+      await member.addRoles(
+        roles.map(r => r.id),
+        reason
+      )
+    },
+    removeRoles: async (roles, reason) => {
+      await member.removeRoles(
+        roles.map(r => r.id),
+        reason
+      )
+    }
+  }
+}
+
+/**
+ * Creates the role context of a Discord role
+ * @param {Role} role
+ * @returns {RoleContext}
+ */
+function discordRole(role: Role): RoleContext {
+  return { id: role.id, name: role.name, mention: role.toString(), editable: role.editable, managed: role.managed }
+}
+
+/**
+ * Creates the channel context of a Discord text channel
+ * @param {TextChannel} channel
+ * @returns {ChannelContext}
+ */
+function discordChannel(channel: TextChannel): ChannelContext {
+  return { id: channel.id, name: channel.name, mention: channel.toString(), send: content => send(channel, content) }
+}
+
+/**
+ * Sends the reply content to a Discord user by direct message, counting it in the metrics when it fails
+ * @async
+ * @param {User} user
+ * @param {ReplyContent} content
+ */
+async function directMessage(user: User, content: ReplyContent) {
+  try {
+    await send(user, content)
+  } catch (e) {
+    dmFailures.inc({ source: 'command' })
+    throw e
+  }
+}
+
+/**
+ * Sends the reply content to a Discord channel or user
+ * @async
+ * @param {PartialTextBasedChannelFields} target
+ * @param {ReplyContent} content
+ */
+async function send(target: PartialTextBasedChannelFields, content: ReplyContent) {
+  if (typeof content === 'string') await target.send(content)
+  else await target.send(content.content || '', { embed: content.embed as RichEmbed })
+}
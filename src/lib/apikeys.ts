@@ -0,0 +1,57 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { timingSafeEqual } from 'crypto'
+import { Env } from './state'
+
+/**
+ * Metadata key and HTTP header that clients send their API key in
+ * @export
+ */
+export const API_KEY_HEADER: string = 'x-api-key'
+
+/**
+ * Returns whether any API keys are configured, without which the JSON API is unavailable
+ * and the gRPC server only starts when unauthenticated calls are explicitly allowed
+ * @export
+ * @returns {boolean}
+ */
+export function apiKeysConfigured(): boolean {
+  return Object.keys(Env.GRPC_API_KEYS).length > 0
+}
+
+/**
+ * Returns the name of the configured client that the API key belongs to
+ * @export
+ * @param {string} key
+ * @returns {(string | undefined)}
+ */
+export function apiClient(key: string): string | undefined {
+  return Object.keys(Env.GRPC_API_KEYS).find(c => matches(Env.GRPC_API_KEYS[c], key))
+}
+
+/**
+ * Compares the API key sent by a client with a configured one in constant time
+ * @param {string} expected
+ * @param {string} actual
+ * @returns {boolean}
+ */
+function matches(expected: string, actual: string): boolean {
+  const a: Buffer = Buffer.from(expected)
+  const b: Buffer = Buffer.from(actual)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
@@ -15,19 +15,28 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Message, Guild } from 'discord.js'
+import { CommandContext } from '../context'
 import { aboutMessage } from '../messages'
+import { CommandDefinition, defineCommand } from '../parser'
 
 /**
  * Sends the user the logistically information about the bot
  * @export
+ */
+export const about: CommandDefinition = defineCommand({
+  name: 'about',
+  category: 'General',
+  description: 'display information about the bot',
+  run: showAbout
+})
+
+/**
+ * Sends the user the logistically information about the bot
  * @async
- * @param {Discord.Guild} _guild
- * @param {Discord.Message} msg
- * @param {string[]} _args
+ * @param {CommandContext} ctx
  * @returns {Promise<string>}
  */
-export async function about(_guild: Guild, msg: Message, _args: string[]): Promise<string> {
-  await msg.author.send({ embed: aboutMessage() })
+async function showAbout(ctx: CommandContext): Promise<string> {
+  await ctx.dm({ embed: aboutMessage() })
   return 'ABOUT_INFO'
 }
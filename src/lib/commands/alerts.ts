@@ -15,20 +15,29 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Message, Guild } from 'discord.js'
+import { CommandContext } from '../context'
 import schedule from 'node-schedule'
 import { alertsMessage } from '../messages'
+import { CommandDefinition, defineCommand } from '../parser'
 
 /**
  * Sends a description of the pending alerts that are scheduled
  * @export
+ */
+export const alerts: CommandDefinition = defineCommand({
+  name: 'alerts',
+  category: 'Admin',
+  description: 'display the pending alerts that are scheduled in the bot',
+  run: listAlerts
+})
+
+/**
+ * Sends a description of the pending alerts that are scheduled
  * @async
- * @param {Discord.Guild} _guild
- * @param {Discord.Message} msg
- * @param {string[]} _args
+ * @param {CommandContext} ctx
  * @returns {Promise<string>}
  */
-export async function alerts(_guild: Guild, msg: Message, _args: string[]): Promise<string> {
+async function listAlerts(ctx: CommandContext): Promise<string> {
   // Get the scheduled alerts
   const jobs: { [job: string]: schedule.Job } = schedule.scheduledJobs
   const alerts: { [name: string]: string[] } = {}
@@ -41,6 +50,6 @@ export async function alerts(_guild: Guild, msg: Message, _args: string[]): Prom
   })
 
   // Send alert information to author
-  await msg.author.send({ embed: alertsMessage(alerts) })
+  await ctx.dm({ embed: alertsMessage(alerts) })
   return 'SCHEDULED_ALERTS_OUTPUT'
 }
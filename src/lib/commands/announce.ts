@@ -15,23 +15,33 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Message, Guild, TextChannel } from 'discord.js'
+import { CommandContext } from '../context'
 import { Env } from '../state'
 import { updateMessage } from '../messages'
 import { Bot } from '../../bot'
+import { CommandDefinition, defineCommand } from '../parser'
 
 /**
  * Sends a description of the pending alerts that are scheduled
  * @export
+ */
+export const announce: CommandDefinition = defineCommand({
+  name: 'announce',
+  category: 'Admin',
+  description: 'send update message to general channel for the bot',
+  cooldown: 60,
+  run: announceUpgrade
+})
+
+/**
+ * Sends a description of the pending alerts that are scheduled
  * @async
- * @param {Discord.Guild} guild
- * @param {Discord.Message} _msg
- * @param {string[]} _args
+ * @param {CommandContext} ctx
  * @returns {Promise<string>}
  */
-export async function announce(guild: Guild, _msg: Message, _args: string[]): Promise<string> {
+async function announceUpgrade(ctx: CommandContext): Promise<string> {
   // Send new bot upgrade message to general chat
-  const chan = guild.channels.find(c => c.id === Env.MAIN_CHANNEL) as TextChannel
-  chan.send({ embed: updateMessage(Bot.VERSION) })
+  const chan = ctx.guild.channel(Env.guild(ctx.guild.id).MAIN_CHANNEL)!
+  chan.send({ embed: updateMessage(ctx.guild.id, Bot.VERSION) })
   return 'BOT_UPGRADE'
 }
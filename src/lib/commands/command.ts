@@ -0,0 +1,124 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { CommandContext } from '../context'
+import { Toggles } from '../state'
+import { commandStatusMessage } from '../messages'
+import { CommandDefinition, defineCommand, defineSubcommand } from '../parser'
+
+/**
+ * View which commands are enabled and enable or disable them at runtime
+ * @export
+ */
+export const command: CommandDefinition = defineCommand({
+  name: 'command',
+  category: 'Admin',
+  description: 'view which commands are enabled and enable or disable them',
+  defaultSubcommand: 'status',
+  subcommands: [
+    defineSubcommand({
+      name: 'status',
+      description: 'display whether each command is enabled or disabled',
+      run: commandStatus
+    }),
+    defineSubcommand({
+      name: 'disable',
+      description: 'disable a command with an optional reason given to members that try to use it',
+      args: [{ name: 'command' }, { name: 'reason', optional: true, variadic: true }],
+      examples: ['!command disable missions the forums API is down'],
+      run: commandDisable
+    }),
+    defineSubcommand({
+      name: 'enable',
+      description: 'enable a disabled command',
+      args: [{ name: 'command' }],
+      examples: ['!command enable missions'],
+      run: commandEnable
+    })
+  ]
+})
+
+/**
+ * Handler for the command status subcommand
+ * @async
+ * @param {CommandContext} ctx
+ * @returns {Promise<string>}
+ */
+async function commandStatus(ctx: CommandContext): Promise<string> {
+  await ctx.dm({ embed: commandStatusMessage(ctx.guild, Toggles.commands()) })
+  return 'COMMAND_STATUS'
+}
+
+/**
+ * Handler for the command disable subcommand
+ * @async
+ * @param {CommandContext} ctx
+ * @param {{ command: string, reason?: string[] }} args
+ * @returns {Promise<string>}
+ */
+async function commandDisable(ctx: CommandContext, args: { command: string; reason?: string[] }): Promise<string> {
+  const name: string | null = await resolveCommand(ctx, args.command)
+  if (!name) return 'COMMAND_NOT_FOUND'
+
+  // Disabling this command would leave admins without a way to enable it again
+  if (name === command.name) {
+    await ctx.dm(`\`${command.name}\` can't be disabled.`)
+    return 'COMMAND_NOT_DISABLEABLE'
+  }
+
+  // The reason is placed mid-sentence in the messages so trailing punctuation is dropped
+  const reason: string | undefined =
+    args.reason && args.reason.length > 0 ? args.reason.join(' ').replace(/[.!]+$/, '') : undefined
+  Toggles.disable(ctx.guild.id, name, ctx.invoker.id, reason)
+  await ctx.dm(`Disabled \`${name}\` in **${ctx.guild.name}**${reason ? `: ${reason}` : ''}.`)
+  return `COMMAND_DISABLED: ${name}`
+}
+
+/**
+ * Handler for the command enable subcommand
+ * @async
+ * @param {CommandContext} ctx
+ * @param {{ command: string }} args
+ * @returns {Promise<string>}
+ */
+async function commandEnable(ctx: CommandContext, args: { command: string }): Promise<string> {
+  const name: string | null = await resolveCommand(ctx, args.command)
+  if (!name) return 'COMMAND_NOT_FOUND'
+
+  if (!Toggles.get(ctx.guild.id, name).disabled) {
+    await ctx.dm(`\`${name}\` is already enabled.`)
+    return 'COMMAND_ALREADY_ENABLED'
+  }
+
+  Toggles.enable(ctx.guild.id, name, ctx.invoker.id)
+  await ctx.dm(`Enabled \`${name}\` in **${ctx.guild.name}**.`)
+  return `COMMAND_ENABLED: ${name}`
+}
+
+/**
+ * Returns the name of the command with the argued name or alias, letting the invoker know if there is none
+ * @export
+ * @async
+ * @param {CommandContext} ctx
+ * @param {string} name
+ * @returns {Promise<string | null>}
+ */
+export async function resolveCommand(ctx: CommandContext, name: string): Promise<string | null> {
+  const resolved: string | null = Toggles.resolve(name)
+  if (!resolved) await ctx.dm(`\`${name}\` is not a command.`)
+  return resolved
+}
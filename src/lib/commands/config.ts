@@ -0,0 +1,156 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { CommandContext } from '../context'
+import { Env, Settings, SETTINGS, SettingKey, SettingValidation } from '../state'
+import { configMessage, settingDisplay } from '../messages'
+import { CommandDefinition, defineCommand, defineSubcommand } from '../parser'
+import { hasRole } from '../permissions'
+
+const keys: SettingKey[] = Object.keys(SETTINGS) as SettingKey[]
+
+/**
+ * View and change the bot settings at runtime without redeploying
+ * @export
+ */
+export const config: CommandDefinition = defineCommand({
+  name: 'config',
+  category: 'Admin',
+  description: 'view and change the bot settings at runtime',
+  defaultSubcommand: 'list',
+  subcommands: [
+    defineSubcommand({
+      name: 'list',
+      description: 'display all settings and their current values',
+      run: configList
+    }),
+    defineSubcommand({
+      name: 'get',
+      description: 'display the current value of a setting',
+      args: [{ name: 'key', choices: keys }],
+      examples: ['!config get LFG_CHANNEL'],
+      run: configGet
+    }),
+    defineSubcommand({
+      name: 'set',
+      description: 'override the value of a setting',
+      args: [
+        { name: 'key', choices: keys },
+        { name: 'value', variadic: true }
+      ],
+      examples: ['!config set LFG_CHANNEL #looking-for-group', '!config set ALLOWED_GROUPS Steel Beasts, DCS'],
+      run: configSet
+    }),
+    defineSubcommand({
+      name: 'reset',
+      description: 'remove the override of a setting to use its environment value',
+      args: [{ name: 'key', choices: keys }],
+      examples: ['!config reset NUM_PLAYERS_FOR_ALERT'],
+      run: configReset
+    })
+  ]
+})
+
+/**
+ * Handler for the config list subcommand
+ * @async
+ * @param {CommandContext} ctx
+ * @returns {Promise<string>}
+ */
+async function configList(ctx: CommandContext): Promise<string> {
+  await ctx.dm({ embed: configMessage(ctx.guild, keys) })
+  return 'CONFIG_LIST'
+}
+
+/**
+ * Handler for the config get subcommand
+ * @async
+ * @param {CommandContext} ctx
+ * @param {{ key: SettingKey }} args
+ * @returns {Promise<string>}
+ */
+async function configGet(ctx: CommandContext, { key }: { key: SettingKey }): Promise<string> {
+  await ctx.dm({ embed: configMessage(ctx.guild, [key]) })
+  return `CONFIG_GET: ${key}`
+}
+
+/**
+ * Handler for the config set subcommand
+ * @async
+ * @param {CommandContext} ctx
+ * @param {{ key: SettingKey, value: string[] }} args
+ * @returns {Promise<string>}
+ */
+async function configSet(ctx: CommandContext, args: { key: SettingKey; value: string[] }): Promise<string> {
+  const result: SettingValidation = Settings.validate(ctx.guild, args.key, args.value.join(' '))
+
+  if (result.error !== undefined) {
+    await ctx.dm(`Could not set \`${args.key}\`: ${result.error}.`)
+    return 'INVALID_CONFIG_VALUE'
+  }
+
+  if (locksOut(ctx, args.key, result.value)) {
+    await ctx.dm(
+      `Could not set \`${args.key}\`: you don't have any of those roles and would lose access to the admin commands. Include one of your roles.`
+    )
+    return 'CONFIG_LOCKOUT'
+  }
+
+  Settings.set(ctx.guild.id, args.key, result.value)
+  const display: string = settingDisplay(ctx.guild, args.key, Env.raw(ctx.guild.id, args.key))
+  await ctx.dm(`Set \`${args.key}\` to ${display} in **${ctx.guild.name}**.`)
+  return `CONFIG_SET: ${args.key}=${result.value}`
+}
+
+/**
+ * Handler for the config reset subcommand
+ * @async
+ * @param {CommandContext} ctx
+ * @param {{ key: SettingKey }} args
+ * @returns {Promise<string>}
+ */
+async function configReset(ctx: CommandContext, { key }: { key: SettingKey }): Promise<string> {
+  if (Env.isOverridden(ctx.guild.id, key) && locksOut(ctx, key, Env.environmentValue(ctx.guild.id, key))) {
+    await ctx.dm(
+      `Could not reset \`${key}\`: you don't have any of the roles in its environment value and would lose access to the admin commands.`
+    )
+    return 'CONFIG_LOCKOUT'
+  }
+
+  if (!Settings.reset(ctx.guild.id, key)) {
+    await ctx.dm(`\`${key}\` is not overridden and is already using its environment value.`)
+    return 'CONFIG_NOT_OVERRIDDEN'
+  }
+
+  const raw: string = Env.raw(ctx.guild.id, key)
+  const display: string = raw ? settingDisplay(ctx.guild, key, raw) : '`unset`'
+  await ctx.dm(`Reset \`${key}\` to its environment value ${display} in **${ctx.guild.name}**.`)
+  return `CONFIG_RESET: ${key}`
+}
+
+/**
+ * Returns whether changing the setting to the value would take the admin level away from the
+ * invoker, which happens when the admin roles no longer include any of the roles they have
+ * @param {CommandContext} ctx
+ * @param {SettingKey} key
+ * @param {string} value
+ * @returns {boolean}
+ */
+function locksOut(ctx: CommandContext, key: SettingKey, value: string): boolean {
+  if (key !== 'ADMIN_ROLES') return false
+  return !value.split(',').some(r => r.trim() !== '' && hasRole(ctx.guild, ctx.invoker, r.trim()))
+}
@@ -15,23 +15,33 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Message, Guild } from 'discord.js'
+import { CommandContext } from '../context'
 import { CalendarEvent, Events } from '../state'
 import { eventsMessage } from '../messages'
+import { CommandDefinition, defineCommand } from '../parser'
 
 /**
  * Displays all pending community events that were scrapped from the forums calendar
  * @deprecated
  * @export
+ */
+export const events: CommandDefinition = defineCommand({
+  name: 'events',
+  category: 'Community',
+  description: 'displays all pending community events',
+  run: listEvents
+})
+
+/**
+ * Displays all pending community events that were scrapped from the forums calendar
+ * @deprecated
  * @async
- * @param {Guild} _guild
- * @param {Message} msg
- * @param {string[]} _args
+ * @param {CommandContext} ctx
  * @returns {Promise<string>}
  */
-export async function events(_guild: Guild, msg: Message, _args: string[]): Promise<string> {
+async function listEvents(ctx: CommandContext): Promise<string> {
   // Get all stored events send to user with embed message
   const e: CalendarEvent[] = Events.getEvents()
-  await msg.author.send({ embed: eventsMessage(e) })
+  await ctx.dm({ embed: eventsMessage(e) })
   return 'EVENTS_LIST_OUTPUT'
 }
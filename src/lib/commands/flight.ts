@@ -15,72 +15,96 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Message, Guild, TextChannel, RichEmbed } from 'discord.js'
-import { Groups, Flight, GroupType, Env } from '../state'
+import { CommandContext, ChannelContext, RoleContext } from '../context'
+import { Groups, Flight, GroupType, Env, GuildSettings } from '../state'
 import { flightsMessage, flightCreatedMessage } from '../messages'
+import { toStoredUser } from '../helpers'
+import { resolveRole } from '../permissions'
+import { CommandDefinition, defineCommand, defineSubcommand, TimeOfDay } from '../parser'
 
 /**
  * UOAF pickup flight command for creating, joining, and alerting flights
  * and pickup flight members
  * @export
- * @async
- * @param {Guild} guild
- * @param {Message} msg
- * @param {string[]} args
- * @returns {Promise<string>}
  */
-export async function flight(guild: Guild, msg: Message, args: string[]): Promise<string> {
-  // List current flights if no arguments given or 'list' argument
-  if (args.length === 0 || (args.length === 1 && args[0] === 'list')) {
-    return await flightList(msg)
-  } else if (args.length === 2 && args[0] === 'join' && !isNaN(parseInt(args[1]))) {
-    // Attempt to join a flight if the argued flight ID
-    return await flightJoin(msg, args)
-  } else if (args.length === 2 && args[0] === 'delete' && !isNaN(parseInt(args[1]))) {
-    // Delete the argued flight if the author owns it
-    return await flightDelete(msg, args)
-  } else if (args.length >= 5 && args[0] === 'create') {
-    // Create a new flight
-    return await flightCreate(guild, msg, args)
-  } else {
-    // Invalid inputs
-    await msg.author.send('Invalid arguments for the `!flight` command given.')
-    return 'INVALID_ARGS'
-  }
-}
+export const flight: CommandDefinition = defineCommand({
+  name: 'flight',
+  aliases: ['flights'],
+  category: 'Groups',
+  description: 'manage pickup flights for UOAF',
+  cooldown: 5,
+  defaultSubcommand: 'list',
+  subcommands: [
+    defineSubcommand({
+      name: 'list',
+      description: 'display all pending pickup flights',
+      run: flightList
+    }),
+    defineSubcommand({
+      name: 'create',
+      description: 'create a new pickup flight for the sim at the zulu time and date with any extra details',
+      args: [
+        { name: 'sim', choices: ['BMS', 'DCS'] },
+        { name: 'time', type: 'time' },
+        { name: 'date', type: 'date' },
+        { name: 'details', variadic: true }
+      ],
+      examples: ['!flight create BMS 19:30 06/14 "Strike package on Kunsan, 4 ship"'],
+      run: flightCreate
+    }),
+    defineSubcommand({
+      name: 'join',
+      description: 'join an existing pickup flight by its ID',
+      args: [{ name: 'id', type: 'int' }],
+      examples: ['!flight join 2'],
+      run: flightJoin
+    }),
+    defineSubcommand({
+      name: 'delete',
+      description: 'delete a pickup flight that you have created by its ID',
+      args: [{ name: 'id', type: 'int' }],
+      run: flightDelete
+    })
+  ]
+})
 
 /**
  * Listing all the stored flights
  * @async
- * @param {Message} msg
+ * @param {CommandContext} ctx
  * @returns {Promise<string>}
  */
-async function flightList(msg: Message): Promise<string> {
-  const flights: Flight[] = Groups.getFlights()
-  await msg.author.send({ embed: flightsMessage(flights) })
+async function flightList(ctx: CommandContext): Promise<string> {
+  const flights: Flight[] = Groups.getFlights(ctx.guild.id)
+  await ctx.dm({ embed: flightsMessage(ctx.guild.id, flights) })
   return 'FLIGHT_LISTING_OUTPUT'
 }
 
 /**
  * Join a flight with the ID
  * @async
- * @param {Message} msg
- * @param {string[]} args
+ * @param {CommandContext} ctx
+ * @param {{ id: number }} args
  * @returns {Promise<string>}
  */
-async function flightJoin(msg: Message, args: string[]): Promise<string> {
-  const { joined, flight } = Groups.joinFlight(msg.author, parseInt(args[1]))
+async function flightJoin(ctx: CommandContext, { id }: { id: number }): Promise<string> {
+  const { joined, flight } = Groups.joinFlight(ctx.guild.id, toStoredUser(ctx.invoker), id)
 
   if (joined) {
     // Alert the flight owner and command sender that a new member joined
-    await msg.author.send(`You have joined the flight **${flight!.game}-${flight!.id}**.`)
-    await flight!.owner.send(`_**${msg.author.username}**_ has joined your flight **${flight!.game}-${flight!.id}**.`)
+    await ctx.dm(`You have joined the flight **${flight!.game}-${flight!.id}**.`)
+    await ctx.dmUser(
+      flight!.owner.id,
+      `_**${ctx.invoker.username}**_ has joined your flight **${flight!.game}-${flight!.id}**.`
+    )
 
     return `FLIGHT_JOIN ${flight!.game}-${flight!.id}`
   } else {
     // No flight found with argued ID
-    await msg.author.send(
-      `No flight exists with ID: **${args[1]}**. Run the \`!flight list\` command to see the active flights.`
+    await ctx.dm(
+      `No flight exists with ID: **${id}**. Run the \`${
+        Env.guild(ctx.guild.id).PREFIX
+      }flight list\` command to see the active flights.`
     )
     return 'GROUP_NOT_FOUND'
   }
@@ -88,25 +112,26 @@ async function flightJoin(msg: Message, args: string[]): Promise<string> {
 
 /**
  * Delete the argued flight ID if the author of the command owns it
- * @param {Message} msg
- * @param {string[]} args
+ * @async
+ * @param {CommandContext} ctx
+ * @param {{ id: number }} args
  * @returns {Promise<string>}
  */
-async function flightDelete(msg: Message, args: string[]): Promise<string> {
-  const target: Flight[] = Groups.getFlights().filter(f => f.id === parseInt(args[1]))
+async function flightDelete(ctx: CommandContext, { id }: { id: number }): Promise<string> {
+  const target: Flight[] = Groups.getFlights(ctx.guild.id).filter(f => f.id === id)
 
   if (target.length === 0) {
     // If no flight was found...
-    await msg.author.send(`No flight with the ID of ${args[1]} exists.`)
+    await ctx.dm(`No flight with the ID of ${id} exists.`)
     return 'NO_FLIGHT_TO_DELETE'
-  } else if (target[0].owner === msg.author) {
+  } else if (target[0].owner.id === ctx.invoker.id) {
     // Successful find and ownership
-    Groups.remove(parseInt(args[1]), GroupType.Flight)
-    await msg.author.send(`Successfully deleted your flight **${target[0].game}-${target[0].id}**.`)
-    return `FLIGHT_REMOVE ${args[1]}`
+    Groups.remove(ctx.guild.id, id, GroupType.Flight)
+    await ctx.dm(`Successfully deleted your flight **${target[0].game}-${target[0].id}**.`)
+    return `FLIGHT_REMOVE ${id}`
   } else {
     // Non-ownership error
-    await msg.author.send(`You cannot delete a flight that you don't own.`)
+    await ctx.dm(`You cannot delete a flight that you don't own.`)
     return 'DO_NOT_OWN_FLIGHT'
   }
 }
@@ -114,50 +139,65 @@ async function flightDelete(msg: Message, args: string[]): Promise<string> {
 /**
  * Create a new Flight to track and store based on arguments
  * @async
- * @param {Guild} guild
- * @param {Message} msg
- * @param {string[]} args
+ * @param {CommandContext} ctx
+ * @param {{ sim: 'BMS' | 'DCS', time: TimeOfDay, date: Date, details: string[] }} args
  * @returns {Promise<string>}
  */
-async function flightCreate(guild: Guild, msg: Message, args: string[]): Promise<string> {
-  const flights: Flight[] = Groups.getFlights()
+async function flightCreate(
+  ctx: CommandContext,
+  args: { sim: 'BMS' | 'DCS'; time: TimeOfDay; date: Date; details: string[] }
+): Promise<string> {
+  const flights: Flight[] = Groups.getFlights(ctx.guild.id)
 
   // Check if the author already has a registered pickup flight
-  if (Groups.userAlreadyLooking(msg.author.username, flights)) {
-    await msg.author.send('You already have a registered pickup flight!')
+  if (Groups.userAlreadyLooking(ctx.invoker.id, flights)) {
+    await ctx.dm('You already have a registered pickup flight!')
     return 'TOO_MANY_FLIGHTS'
   }
 
-  // Ensure that the argued game is valid
-  if (args[1].toUpperCase() !== 'BMS' && args[1].toUpperCase() !== 'DCS') {
-    await msg.author.send('The `GAME` argument must be either `BMS` or `DCS`.')
-    return 'INVALID_ARGS'
+  // Make sure the flight can be announced before storing it
+  const settings: GuildSettings = Env.guild(ctx.guild.id)
+  const ch: ChannelContext | null = ctx.guild.channel(settings.FLIGHTS_CHANNEL)
+  if (!ch) {
+    await ctx.dm(
+      `The flights channel isn't configured for this server. Ask an admin to set it with \`${settings.PREFIX}config set FLIGHTS_CHANNEL <channel>\`.`
+    )
+    return 'FLIGHTS_CHANNEL_NOT_CONFIGURED'
+  }
+
+  const role: RoleContext | null = resolveRole(ctx.guild, settings.BMS_PLAYER_ROLE)
+  if (!role) {
+    await ctx.dm(
+      `The BMS player role isn't configured for this server. Ask an admin to set it with \`${settings.PREFIX}config set BMS_PLAYER_ROLE <role>\`.`
+    )
+    return 'BMS_PLAYER_ROLE_NOT_CONFIGURED'
   }
 
-  // Get arguments to parse into flight date/time
-  const year = new Date().getFullYear()
-  const time = args[2]
-  const date = args[3].replace('/', '-')
+  // Combine the zulu date and time arguments into the flight time
+  const time = new Date(args.date.getTime())
+  time.setUTCHours(args.time.hours, args.time.minutes)
 
   // Parse input arguments into new Flight object to store
   const f: Flight = {
-    id: flights.length + 1,
-    owner: msg.author,
-    game: args[1].toUpperCase() as 'BMS' | 'DCS',
-    details: args.slice(4).join(' '),
-    time: new Date(`${year}-${date}T${time}:00Z`),
-    found: [msg.author]
+    id: Groups.nextId(ctx.guild.id, GroupType.Flight),
+    guild: ctx.guild.id,
+    owner: toStoredUser(ctx.invoker),
+    game: args.sim,
+    details: args.details.join(' '),
+    time,
+    found: [toStoredUser(ctx.invoker)],
+    expires: Groups.expiryDate()
+  }
+
+  if (!Groups.add(f, GroupType.Flight)) {
+    await ctx.dm(`A flight with the ID of ${f.id} already exists, please try again.`)
+    return 'FLIGHT_ID_TAKEN'
   }
 
-  Groups.add(f, GroupType.Flight)
-  await msg.author.send(
-    `You have created a new **${f.game}** flight! Players can now join using your flight ID: **${f.id}**.`
-  )
+  await ctx.dm(`You have created a new **${f.game}** flight! Players can now join using your flight ID: **${f.id}**.`)
 
   // Send creation announcement to uoaf_flights channel
-  const ch: TextChannel = guild.channels.find(c => c.id === Env.FLIGHTS_CHANNEL) as TextChannel
-  const role = guild.roles.find(r => r.name === Env.BMS_PLAYER_ROLE)
-  await ch.send(role.toString(), { embed: flightCreatedMessage(f) as RichEmbed })
+  await ch.send({ content: role.mention, embed: flightCreatedMessage(f) })
 
   return `FLIGHT_CREATED: ${f.game}-${f.id}`
 }
@@ -15,20 +15,69 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Message, Guild } from 'discord.js'
-import { BotAction } from '../../bot'
-import { helpMessage } from '../messages'
+import { CommandContext } from '../context'
+import { CommandRegistration } from '../../bot'
+import { CommandDefinition, defineCommand } from '../parser'
+import { helpMessage, commandHelpMessage } from '../messages'
+import { Env } from '../state'
 
 /**
- * Returns the usage information for the list of commands
+ * Returns the usage information for the list of commands, or the detailed
+ * usage of a single command when one is argued
  * @export
+ * @param {Map<string, CommandRegistration>} commands
+ * @returns {CommandDefinition}
+ */
+export function help(commands: Map<string, CommandRegistration>): CommandDefinition {
+  return defineCommand({
+    name: 'help',
+    aliases: ['?'],
+    category: 'General',
+    description: 'display the commands you can run or the detailed usage of a single command',
+    args: [{ name: 'command', optional: true }],
+    examples: ['!help', '!help flight'],
+    run: async (ctx: CommandContext, { command }: { command?: string }): Promise<string> => {
+      if (command) return await commandHelp(commands, ctx, command)
+
+      // Group the commands that the caller is able to run by their category
+      const categories: Map<string, CommandRegistration[]> = new Map()
+      for (const c of commands.values()) {
+        if (c.provision && !c.provision.permits(ctx.guild, ctx.invoker)) continue
+
+        const category: string = c.definition.category || 'General'
+        categories.set(category, [...(categories.get(category) || []), c])
+      }
+
+      await ctx.dm({ embed: helpMessage(ctx.guild, categories) })
+      return 'HELP_OUTPUT'
+    }
+  })
+}
+
+/**
+ * Sends the detailed usage, examples and permissions of a single command
  * @async
- * @param {Map<string, string>} output
- * @returns {BotAction}
+ * @param {Map<string, CommandRegistration>} commands
+ * @param {CommandContext} ctx
+ * @param {string} name
+ * @returns {Promise<string>}
  */
-export function help(commands: Map<string, string>): BotAction {
-  return async (_guild: Guild, msg: Message, _args: string[]): Promise<string> => {
-    await msg.author.send({ embed: helpMessage(commands) })
-    return 'HELP_OUTPUT'
+async function commandHelp(
+  commands: Map<string, CommandRegistration>,
+  ctx: CommandContext,
+  name: string
+): Promise<string> {
+  const prefix: string = Env.guild(ctx.guild.id).PREFIX
+  const key: string = (name.startsWith(prefix) ? name.slice(prefix.length) : name).toLowerCase()
+  const command: CommandRegistration | undefined = [...commands.values()].find(
+    c => c.definition.name === key || (c.definition.aliases || []).includes(key)
+  )
+
+  if (!command) {
+    await ctx.dm(`There is no \`${prefix}${key}\` command. Run \`${prefix}help\` to see the commands you can use.`)
+    return 'HELP_COMMAND_NOT_FOUND'
   }
+
+  await ctx.dm({ embed: commandHelpMessage(ctx.guild, command) })
+  return `HELP_OUTPUT: ${command.definition.name}`
 }
@@ -15,16 +15,44 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
+import { Bot } from '../../bot'
+import { admins, disabled } from '../access'
+import { about } from './about'
+import { alerts } from './alerts'
+import { announce } from './announce'
+import { command } from './command'
+import { config } from './config'
+import { events } from './events'
+import { flight } from './flight'
+import { lfg } from './lfg'
+import { missions } from './missions'
+import { policy } from './policy'
+import { polls } from './polls'
+import { primary } from './primary'
+import { provision } from './provision'
+import { ratio } from './ratio'
+import { ready } from './ready'
+import { role } from './role'
+import { shutdown } from './shutdown'
+import { sqf, sqfp } from './sqf'
+import { stats } from './stats'
+import { user } from './user'
+
 export { about } from './about'
 export { alerts } from './alerts'
 export { announce } from './announce'
+export { command } from './command'
+export { config } from './config'
 export { events } from './events'
 export { flight } from './flight'
 export { help } from './help'
 export { lfg } from './lfg'
 export { missions } from './missions'
+export { permissions } from './permissions'
+export { policy } from './policy'
 export { polls } from './polls'
 export { primary } from './primary'
+export { provision } from './provision'
 export { ratio } from './ratio'
 export { ready } from './ready'
 export { role } from './role'
@@ -32,3 +60,36 @@ export { shutdown } from './shutdown'
 export { sqf, sqfp } from './sqf'
 export { stats } from './stats'
 export { user } from './user'
+
+/**
+ * Adds all of the commands to the bot with the access they are run with and
+ * their policies, shared by the Discord client and the local console. Channel
+ * policies can name channel settings so they follow changes made with `!config`.
+ * @export
+ * @param {Bot} bot
+ * @returns {Bot}
+ */
+export function registerCommands(bot: Bot): Bot {
+  return bot
+    .addCommand(about)
+    .addCommand(alerts, admins)
+    .addCommand(announce, admins)
+    .addCommand(command, admins)
+    .addCommand(config, admins)
+    .addCommand(events, disabled)
+    .addCommand(flight, undefined, { channels: ['FLIGHTS_CHANNEL'] })
+    .addCommand(lfg)
+    .addCommand(missions, disabled)
+    .addCommand(policy, admins)
+    .addCommand(polls, disabled) // Regulars only
+    .addCommand(primary, disabled)
+    .addCommand(provision, admins)
+    .addCommand(ratio)
+    .addCommand(ready, disabled)
+    .addCommand(role)
+    .addCommand(shutdown, admins)
+    .addCommand(sqf)
+    .addCommand(sqfp, undefined, { channels: ['ARMA_CHANNEL', 'BMS_CHANNEL'] })
+    .addCommand(stats, admins)
+    .addCommand(user, admins)
+}
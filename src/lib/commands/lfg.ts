@@ -15,82 +15,100 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Message, Guild, TextChannel } from 'discord.js'
-import { Groups, Group, GroupType, Env } from '../state'
+import { CommandContext, ChannelContext } from '../context'
+import { Groups, Group, GroupType, Env, GuildSettings } from '../state'
 import { groupsMessage, groupCreatedMessage, groupFullMessage } from '../messages'
+import { toStoredUser } from '../helpers'
+import { CommandDefinition, defineCommand, defineSubcommand } from '../parser'
 
 /**
  * Looking for group command handler for finding players for a game session
  * @export
- * @async
- * @param {Discord.Guild} guild
- * @param {Discord.Message} msg
- * @param {string[]} args
- * @returns {Promise<string>}
  */
-export async function lfg(guild: Guild, msg: Message, args: string[]): Promise<string> {
-  // List current groups if no argument given or 'list' argument
-  if (args.length === 0 || (args.length === 1 && args[0] === 'list')) {
-    return await lfgList(msg)
-  } else if (args.length === 2 && args[0] === 'join' && !isNaN(parseInt(args[1]))) {
-    // Attempt to join a group if the appropriate arguments are passed
-    return await lfgJoin(msg, args)
-  } else if (args.length === 2 && args[0] === 'delete' && !isNaN(parseInt(args[1]))) {
-    // Delete the argued group if you are the owner of it
-    return await lfgDelete(msg, args)
-  } else if (args.length === 3 && args[0] === 'create' && !isNaN(parseInt(args[1]))) {
-    // Create a new group with the appropriately argued values
-    return await lfgCreate(guild, msg, args)
-  } else {
-    // Invalid inputs
-    await msg.author.send('Invalid arguments for the `!lfg` command given.')
-    return 'INVALID_ARGS'
-  }
-}
+export const lfg: CommandDefinition = defineCommand({
+  name: 'lfg',
+  aliases: ['group', 'groups'],
+  category: 'Groups',
+  description: 'looking for group functionality to find people to play a game with',
+  cooldown: 5,
+  defaultSubcommand: 'list',
+  subcommands: [
+    defineSubcommand({
+      name: 'list',
+      description: 'display all groups looking for players',
+      run: lfgList
+    }),
+    defineSubcommand({
+      name: 'create',
+      description: 'create a new group with a name and the amount of players it is looking for',
+      args: [
+        { name: 'needed', type: 'int' },
+        { name: 'name', variadic: true }
+      ],
+      examples: ['!lfg create 4 Arma 3 Antistasi'],
+      run: lfgCreate
+    }),
+    defineSubcommand({
+      name: 'join',
+      description: 'join a group looking for players by its ID',
+      args: [{ name: 'id', type: 'int' }],
+      examples: ['!lfg join 1'],
+      run: lfgJoin
+    }),
+    defineSubcommand({
+      name: 'delete',
+      description: 'delete a group that you have created by its ID',
+      args: [{ name: 'id', type: 'int' }],
+      run: lfgDelete
+    })
+  ]
+})
 
 /**
  * Handler for listing subcommand
  * @async
- * @param {Discord.Message} msg
+ * @param {CommandContext} ctx
  * @returns {Promise<string>}
  */
-async function lfgList(msg: Message): Promise<string> {
-  const groups: Group[] = Groups.getGroups()
-  await msg.author.send({ embed: groupsMessage(groups) })
+async function lfgList(ctx: CommandContext): Promise<string> {
+  const groups: Group[] = Groups.getGroups(ctx.guild.id)
+  await ctx.dm({ embed: groupsMessage(ctx.guild.id, groups) })
   return 'GROUP_LISTING_OUTPUT'
 }
 
 /**
  * Handler for the group join subcommand
  * @async
- * @param {Discord.Message} msg
- * @param {string[]} args
+ * @param {CommandContext} ctx
+ * @param {{ id: number }} args
  * @returns {Promise<string>}
  */
-async function lfgJoin(msg: Message, args: string[]): Promise<string> {
+async function lfgJoin(ctx: CommandContext, { id }: { id: number }): Promise<string> {
   let output: string = 'INVALID_ARGS'
-  const res = Groups.joinGroup(msg.author, parseInt(args[1]))
+  const res = Groups.joinGroup(ctx.guild.id, toStoredUser(ctx.invoker), id)
 
   if (res.group) {
     // Alert the command sender and group owner of the newly joined member
-    output = `GROUP_JOIN: ${args[1]}`
-    await msg.author.send(`You have joined the group **${res.group.name}**.`)
-    await res.group.owner.send(`_**${msg.author.username}**_ has joined your group **${res.group.name}**.`)
+    output = `GROUP_JOIN: ${id}`
+    await ctx.dm(`You have joined the group **${res.group.name}**.`)
+    await ctx.dmUser(res.group.owner.id, `_**${ctx.invoker.username}**_ has joined your group **${res.group.name}**.`)
 
     // Send the full group alert message to all members of the group and owner
     // and delete the group from the LFG storage
     if (res.full) {
       ;[res.group!.owner, ...res.group!.found].forEach(async u => {
-        await u.send({ embed: groupFullMessage(res.group!) })
+        await ctx.dmUser(u.id, { embed: groupFullMessage(res.group!) })
       })
 
-      Groups.remove(res.group.id, GroupType.LFG)
+      Groups.remove(ctx.guild.id, res.group.id, GroupType.LFG)
     }
   } else if (!res.group) {
     // If no group was found with the argued ID
     output = `GROUP_NOT_FOUND`
-    await msg.author.send(
-      `No group with the ID of ${args[1]} was found. Run the \`!lfg list\` command to see the active groups.`
+    await ctx.dm(
+      `No group with the ID of ${id} was found. Run the \`${
+        Env.guild(ctx.guild.id).PREFIX
+      }lfg list\` command to see the active groups.`
     )
   }
 
@@ -100,24 +118,24 @@ async function lfgJoin(msg: Message, args: string[]): Promise<string> {
 /**
  * Handler for the group delete subcommand
  * @async
- * @param {Discord.Message} msg
- * @param {string[]} args
+ * @param {CommandContext} ctx
+ * @param {{ id: number }} args
  * @returns {Promise<string>}
  */
-async function lfgDelete(msg: Message, args: string[]): Promise<string> {
+async function lfgDelete(ctx: CommandContext, { id }: { id: number }): Promise<string> {
   let output: string = 'INVALID_ARGS'
-  const target: Group[] = Groups.getGroups().filter(g => g.id === parseInt(args[1]))
+  const target: Group[] = Groups.getGroups(ctx.guild.id).filter(g => g.id === id)
 
   if (target.length === 0) {
     output = 'NO_GROUP_TO_DELETE'
-    await msg.author.send(`No group with the ID of ${args[1]} exists.`)
-  } else if (target[0].owner === msg.author) {
-    Groups.remove(parseInt(args[1]), GroupType.LFG)
-    output = `GROUP_REMOVE: ${args[1]}`
-    await msg.author.send(`Successfully deleted your group **${target[0].name}**.`)
+    await ctx.dm(`No group with the ID of ${id} exists.`)
+  } else if (target[0].owner.id === ctx.invoker.id) {
+    Groups.remove(ctx.guild.id, id, GroupType.LFG)
+    output = `GROUP_REMOVE: ${id}`
+    await ctx.dm(`Successfully deleted your group **${target[0].name}**.`)
   } else {
     output = 'DO_NOT_OWN_GROUP'
-    await msg.author.send(`You cannot delete a group that you don't own.`)
+    await ctx.dm(`You cannot delete a group that you don't own.`)
   }
 
   return output
@@ -126,37 +144,52 @@ async function lfgDelete(msg: Message, args: string[]): Promise<string> {
 /**
  * Handler for the group create subcommand
  * @async
- * @param {Discord.Guild} guild
- * @param {Discord.Message} msg
- * @param {string[]} args
+ * @param {CommandContext} ctx
+ * @param {{ needed: number, name: string[] }} args
  * @returns {Promise<string>}
  */
-async function lfgCreate(guild: Guild, msg: Message, args: string[]): Promise<string> {
-  const groups: Group[] = Groups.getGroups()
+async function lfgCreate(ctx: CommandContext, args: { needed: number; name: string[] }): Promise<string> {
+  const groups: Group[] = Groups.getGroups(ctx.guild.id)
+  const name: string = args.name.join(' ')
 
   // First check if they already have an active LFG group, allow 1 active per user
-  if (Groups.userAlreadyLooking(msg.author.username, groups)) {
-    await msg.author.send('You already have an active LFG group!')
+  if (Groups.userAlreadyLooking(ctx.invoker.id, groups)) {
+    await ctx.dm('You already have an active LFG group!')
     return 'TOO_MANY_GROUPS'
   }
 
+  // Make sure the group can be announced before storing it
+  const settings: GuildSettings = Env.guild(ctx.guild.id)
+  const ch: ChannelContext | null = ctx.guild.channel(settings.LFG_CHANNEL)
+  if (!ch) {
+    await ctx.dm(
+      `The looking for group channel isn't configured for this server. Ask an admin to set it with \`${settings.PREFIX}config set LFG_CHANNEL <channel>\`.`
+    )
+    return 'LFG_CHANNEL_NOT_CONFIGURED'
+  }
+
   // Parse input arguments and add newly created group
   const g: Group = {
-    id: groups.length + 1,
-    owner: msg.author,
-    name: args[2],
-    needed: parseInt(args[1]),
-    found: [msg.author]
+    id: Groups.nextId(ctx.guild.id, GroupType.LFG),
+    guild: ctx.guild.id,
+    owner: toStoredUser(ctx.invoker),
+    name,
+    needed: args.needed,
+    found: [toStoredUser(ctx.invoker)],
+    expires: Groups.expiryDate()
+  }
+
+  if (!Groups.add(g, GroupType.LFG)) {
+    await ctx.dm(`A group with the ID of ${g.id} already exists, please try again.`)
+    return 'GROUP_ID_TAKEN'
   }
 
-  Groups.add(g, GroupType.LFG)
-  await msg.author.send(
-    `You have created the new group **${args[2]}**! You will be alerted when new players join your group and when it is full.`
+  await ctx.dm(
+    `You have created the new group **${name}**! You will be alerted when new players join your group and when it is full.`
   )
 
   // Send creation announcement to main Discord channel
-  const ch: TextChannel = guild.channels.find(c => c.id === Env.LFG_CHANNEL) as TextChannel
   await ch.send({ embed: groupCreatedMessage(g) })
 
-  return `GROUP_CREATED: ${args[2]}`
+  return `GROUP_CREATED: ${name}`
 }
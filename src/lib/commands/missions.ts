@@ -15,10 +15,11 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Message, Guild } from 'discord.js'
+import { CommandContext } from '../context'
 import fetch, { RequestInit } from 'node-fetch'
 import { Env } from '../state'
 import { missionsMessage } from '../messages'
+import { CommandDefinition, defineCommand } from '../parser'
 
 type MissionCategory = {
   id: number
@@ -60,19 +61,25 @@ enum MissionField {
  * Searches the mission file FTP server for names that match the argued name
  * @deprecated
  * @export
+ */
+export const missions: CommandDefinition = defineCommand({
+  name: 'missions',
+  category: 'ArmA',
+  description: 'search for mission on the forums API with names that fully or partially match the argued name',
+  args: [{ name: 'name', variadic: true }],
+  examples: ['!missions co 40 rescue'],
+  run: searchMissions
+})
+
+/**
+ * Searches the mission file FTP server for names that match the argued name
+ * @deprecated
  * @async
- * @param {Discord.Guild} _guild
- * @param {Discord.Message} msg
- * @param {string[]} args
+ * @param {CommandContext} ctx
+ * @param {{ name: string[] }} args
  * @returns {Promise<string>}
  */
-export async function missions(_guild: Guild, msg: Message, args: string[]): Promise<string> {
-  // Ensure there was at least one name argued given
-  if (args.length < 1) {
-    await msg.author.send('You must provide at least one string for searching mission names.')
-    return 'INVALID_ARGS'
-  }
-
+async function searchMissions(ctx: CommandContext, { name: args }: { name: string[] }): Promise<string> {
   // Log into the mission file FTP server and get the list of all mission on the primary server
   const opts: RequestInit = { headers: { Authorization: Env.forumsAPIAuthToken } }
   const params: string = '&categories=41&sortBy=title&sortDir=asc'
@@ -84,7 +91,7 @@ export async function missions(_guild: Guild, msg: Message, args: string[]): Pro
     .map(mission => mission.fields[MissionField.FileName])
     .filter(n => isMatch(args, n.split('_')))
 
-  await msg.author.send({ embed: missionsMessage(args, matchesByName) })
+  await ctx.dm({ embed: missionsMessage(args, matchesByName) })
   return 'MISSION_SEARCH_OUTPUT'
 }
 
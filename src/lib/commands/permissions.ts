@@ -0,0 +1,66 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { CommandContext, MemberContext } from '../context'
+import { CommandRegistration } from '../../bot'
+import { CommandDefinition, defineCommand } from '../parser'
+import { permissionsMessage } from '../messages'
+import { memberDenial, restrictedChannels, channelMention } from '../access'
+import { Env, Toggles } from '../state'
+
+/**
+ * Returns the command for showing the permission level of a member and
+ * which commands they can run, and where, once every check is applied
+ * @export
+ * @param {Map<string, CommandRegistration>} commands
+ * @returns {CommandDefinition}
+ */
+export function permissions(commands: Map<string, CommandRegistration>): CommandDefinition {
+  return defineCommand({
+    name: 'permissions',
+    aliases: ['perms'],
+    category: 'Admin',
+    description: 'display the permission level of a member and the commands they can run',
+    args: [{ name: 'user', type: 'user', optional: true }],
+    examples: ['!permissions', '!permissions @Someone'],
+    run: async (ctx: CommandContext, { user }: { user?: MemberContext }): Promise<string> => {
+      const member: MemberContext = user || ctx.invoker
+      const prefix: string = Env.guild(ctx.guild.id).PREFIX
+      const allowed: string[] = []
+      const denied: string[] = []
+
+      for (const { definition, provision } of commands.values()) {
+        const cmd: string = `\`${prefix}${definition.name}\``
+
+        if (Toggles.get(ctx.guild.id, definition.name).disabled) {
+          denied.push(`${cmd}: _disabled_`)
+        } else if (provision && !provision.permits(ctx.guild, member)) {
+          denied.push(`${cmd}: _requires ${provision.requirement(ctx.guild)}_`)
+        } else if (memberDenial(ctx.guild, member, definition.name)) {
+          denied.push(`${cmd}: _denied by its policy_`)
+        } else {
+          const channels: string[] = restrictedChannels(ctx.guild, member, definition.name)
+          const where: string = channels.map(c => channelMention(ctx.guild, c)).join(', ')
+          allowed.push(channels.length > 0 ? `${cmd}: _only in ${where}_` : cmd)
+        }
+      }
+
+      await ctx.dm({ embed: permissionsMessage(ctx.guild, member, allowed, denied) })
+      return `PERMISSIONS_OUTPUT: ${member.id}`
+    }
+  })
+}
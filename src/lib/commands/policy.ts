@@ -0,0 +1,203 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { CommandContext, ChannelContext, MemberContext, RoleContext } from '../context'
+import { Policies, CommandPolicy } from '../state'
+import { policyMessage } from '../messages'
+import { CommandDefinition, defineCommand, defineSubcommand } from '../parser'
+import { resolveCommand } from './command'
+
+/**
+ * View and change which channels, members and roles are allowed to run each command
+ * @export
+ */
+export const policy: CommandDefinition = defineCommand({
+  name: 'policy',
+  category: 'Admin',
+  description: 'view and change where and by whom commands can be run',
+  subcommands: [
+    defineSubcommand({
+      name: 'show',
+      description: 'display the policy of a command',
+      args: [{ name: 'command' }],
+      examples: ['!policy show sqfp'],
+      run: policyShow
+    }),
+    defineSubcommand({
+      name: 'channel',
+      description: 'add or remove a channel that the command can only be used in',
+      args: [{ name: 'command' }, { name: 'action', choices: ['add', 'remove'] }, { name: 'channel', type: 'channel' }],
+      examples: ['!policy channel flight add #flights', '!policy channel sqfp remove #arma'],
+      run: policyChannelRule
+    }),
+    defineSubcommand({
+      name: 'user',
+      description: 'deny or allow a member to use the command',
+      args: [{ name: 'command' }, { name: 'action', choices: ['deny', 'allow'] }, { name: 'user', type: 'user' }],
+      examples: ['!policy user lfg deny @Someone'],
+      run: policyUserRule
+    }),
+    defineSubcommand({
+      name: 'role',
+      description: 'allow a role to use the command in any channel, deny it the command or clear its rule',
+      args: [
+        { name: 'command' },
+        { name: 'action', choices: ['allow', 'deny', 'clear'] },
+        { name: 'role', type: 'role' }
+      ],
+      examples: ['!policy role sqfp allow Regulars', '!policy role flight deny Muted'],
+      run: policyRoleRule
+    }),
+    defineSubcommand({
+      name: 'reset',
+      description: 'remove the changes to the policy of a command to use the one it was added with',
+      args: [{ name: 'command' }],
+      examples: ['!policy reset sqfp'],
+      run: policyReset
+    })
+  ]
+})
+
+/**
+ * Handler for the policy show subcommand
+ * @async
+ * @param {CommandContext} ctx
+ * @param {{ command: string }} args
+ * @returns {Promise<string>}
+ */
+async function policyShow(ctx: CommandContext, { command }: { command: string }): Promise<string> {
+  const name: string | null = await resolveCommand(ctx, command)
+  if (!name) return 'POLICY_COMMAND_NOT_FOUND'
+
+  await ctx.dm({ embed: policyMessage(ctx.guild, name, Policies.get(ctx.guild.id, name)) })
+  return `POLICY_SHOW: ${name}`
+}
+
+/**
+ * Handler for the policy channel subcommand
+ * @async
+ * @param {CommandContext} ctx
+ * @param {{ command: string, action: 'add' | 'remove', channel: ChannelContext }} args
+ * @returns {Promise<string>}
+ */
+async function policyChannelRule(
+  ctx: CommandContext,
+  args: { command: string; action: 'add' | 'remove'; channel: ChannelContext }
+): Promise<string> {
+  return await update(ctx, args.command, p => ({
+    ...p,
+    channels: toggle(p.channels, args.channel.id, args.action === 'add')
+  }))
+}
+
+/**
+ * Handler for the policy user subcommand
+ * @async
+ * @param {CommandContext} ctx
+ * @param {{ command: string, action: 'deny' | 'allow', user: MemberContext }} args
+ * @returns {Promise<string>}
+ */
+async function policyUserRule(
+  ctx: CommandContext,
+  args: { command: string; action: 'deny' | 'allow'; user: MemberContext }
+): Promise<string> {
+  return await update(ctx, args.command, p => ({
+    ...p,
+    deniedUsers: toggle(p.deniedUsers, args.user.id, args.action === 'deny')
+  }))
+}
+
+/**
+ * Handler for the policy role subcommand
+ * @async
+ * @param {CommandContext} ctx
+ * @param {{ command: string, action: 'allow' | 'deny' | 'clear', role: RoleContext }} args
+ * @returns {Promise<string>}
+ */
+async function policyRoleRule(
+  ctx: CommandContext,
+  args: { command: string; action: 'allow' | 'deny' | 'clear'; role: RoleContext }
+): Promise<string> {
+  const { id } = args.role
+  return await update(ctx, args.command, p => ({
+    ...p,
+    allowedRoles: toggle(p.allowedRoles, id, args.action === 'allow'),
+    deniedRoles: toggle(p.deniedRoles, id, args.action === 'deny')
+  }))
+}
+
+/**
+ * Handler for the policy reset subcommand
+ * @async
+ * @param {CommandContext} ctx
+ * @param {{ command: string }} args
+ * @returns {Promise<string>}
+ */
+async function policyReset(ctx: CommandContext, { command }: { command: string }): Promise<string> {
+  const name: string | null = await resolveCommand(ctx, command)
+  if (!name) return 'POLICY_COMMAND_NOT_FOUND'
+
+  if (!Policies.reset(ctx.guild.id, name)) {
+    await ctx.dm(`The policy of \`${name}\` has not been changed and is already the one it was added with.`)
+    return 'POLICY_NOT_OVERRIDDEN'
+  }
+
+  await ctx.dm({
+    content: `Reset the policy of \`${name}\` in **${ctx.guild.name}**.`,
+    embed: policyMessage(ctx.guild, name, Policies.get(ctx.guild.id, name))
+  })
+  return `POLICY_RESET: ${name}`
+}
+
+/**
+ * Applies the change to the current policy of the command in the guild,
+ * saves it as an override and shows the invoker the updated policy
+ * @async
+ * @param {CommandContext} ctx
+ * @param {string} command
+ * @param {(policy: CommandPolicy) => CommandPolicy} change
+ * @returns {Promise<string>}
+ */
+async function update(
+  ctx: CommandContext,
+  command: string,
+  change: (policy: CommandPolicy) => CommandPolicy
+): Promise<string> {
+  const name: string | null = await resolveCommand(ctx, command)
+  if (!name) return 'POLICY_COMMAND_NOT_FOUND'
+
+  const updated: CommandPolicy = change(Policies.get(ctx.guild.id, name))
+  Policies.set(ctx.guild.id, name, updated)
+
+  await ctx.dm({
+    content: `Updated the policy of \`${name}\` in **${ctx.guild.name}**.`,
+    embed: policyMessage(ctx.guild, name, updated)
+  })
+  return `POLICY_SET: ${name}`
+}
+
+/**
+ * Returns a copy of the list with the value added or removed
+ * @param {(string[] | undefined)} list
+ * @param {string} value
+ * @param {boolean} include
+ * @returns {string[]}
+ */
+function toggle(list: string[] | undefined, value: string, include: boolean): string[] {
+  const rest: string[] = (list || []).filter(v => v !== value)
+  return include ? [...rest, value] : rest
+}
@@ -15,23 +15,33 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Message, Guild } from 'discord.js'
+import { CommandContext } from '../context'
 import fetch, { RequestInit } from 'node-fetch'
 import { Env, Polls } from '../state'
 import { PollThreadResponse } from '../polls'
 import { pollListingMessage } from '../messages'
+import { CommandDefinition, defineCommand } from '../parser'
 
 /**
  * Pulls and returns a list of open voting threads from the forums
  * @deprecated
  * @export
+ */
+export const polls: CommandDefinition = defineCommand({
+  name: 'polls',
+  category: 'Community',
+  description: 'get a list of the active polls/voting threads on the forums',
+  run: listPolls
+})
+
+/**
+ * Pulls and returns a list of open voting threads from the forums
+ * @deprecated
  * @async
- * @param {Discord.Guild} _guild
- * @param {Discord.Message} msg
- * @param {string[]} _args
+ * @param {CommandContext} ctx
  * @returns {Promise<string>}
  */
-export async function polls(_guild: Guild, msg: Message, _args: string[]): Promise<string> {
+async function listPolls(ctx: CommandContext): Promise<string> {
   const opts: RequestInit = {
     headers: {
       Authorization: Env.forumsAPIAuthToken
@@ -47,6 +57,6 @@ export async function polls(_guild: Guild, msg: Message, _args: string[]): Promi
     Polls.update(res.id, res.poll.questions[0].options)
   }
 
-  await msg.author.send({ embed: pollListingMessage(Polls.getPolls()) })
+  await ctx.dm({ embed: pollListingMessage(Polls.getPolls()) })
   return 'POLL_LISTING_OUTPUT'
 }
@@ -15,20 +15,29 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Message, Guild } from 'discord.js'
+import { CommandContext } from '../context'
 import { scrapeServerPage } from '../helpers'
 import { serverMessage } from '../messages'
+import { CommandDefinition, defineCommand } from '../parser'
 
 /**
  * Get the data about the current mission on the A3 primary server
  * @export
+ */
+export const primary: CommandDefinition = defineCommand({
+  name: 'primary',
+  category: 'ArmA',
+  description: 'get the information about the current mission on the A3 primary',
+  run: showPrimary
+})
+
+/**
+ * Get the data about the current mission on the A3 primary server
  * @async
- * @param {Discord.Guild} _guild
- * @param {Discord.Message} msg
- * @param {string[]} _args
+ * @param {CommandContext} ctx
  * @returns {Promise<string>}
  */
-export async function primary(_guild: Guild, msg: Message, _args: string[]): Promise<string> {
+async function showPrimary(ctx: CommandContext): Promise<string> {
   try {
     let serverInfo = await scrapeServerPage('http://www.unitedoperations.net/tools/uosim/')
     if (!serverInfo) {
@@ -42,11 +51,11 @@ export async function primary(_guild: Guild, msg: Message, _args: string[]): Pro
       }
     }
 
-    await msg.author.send({ embed: serverMessage(serverInfo) })
+    await ctx.dm({ embed: serverMessage(serverInfo) })
     return 'SERVER_OUTPUT'
   } catch (e) {
     // If there was an error in any asynchronous operation
-    await msg.author.send('Could not retrieve primary server data right now.')
+    await ctx.dm('Could not retrieve primary server data right now.')
     return 'SERVER_INFO_ERROR'
   }
 }
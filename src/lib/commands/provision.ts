@@ -0,0 +1,176 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { CommandContext, MemberContext, RoleContext } from '../context'
+import * as log from '../logger'
+import { Env, Pending, Revocations, RevocationRecord } from '../state'
+import { provisionPreviewMessage, pendingProvisionsMessage } from '../messages'
+import { CommandDefinition, defineCommand, defineSubcommand } from '../parser'
+import { REVOKE_ALL, RoleDiff, ProvisionResult, applyProvision } from '../provisioning'
+
+/**
+ * Preview the roles that a provisioning diff would change for a member and
+ * manage the provisions waiting for users to join the primary server
+ * @export
+ */
+export const provision: CommandDefinition = defineCommand({
+  name: 'provision',
+  category: 'Admin',
+  description: 'preview role provisioning and manage the provisions waiting for users to join',
+  subcommands: [
+    defineSubcommand({
+      name: 'preview',
+      description:
+        'show what would change for the member, with `+role` to assign, `-role` to revoke and `-*` for every role',
+      args: [
+        { name: 'user', type: 'user' },
+        { name: 'changes', optional: true, variadic: true }
+      ],
+      examples: ['!provision preview @Someone +ArmA -BMS', '!provision preview @Someone -* "+Steel Beasts"'],
+      run: provisionPreview
+    }),
+    defineSubcommand({
+      name: 'pending',
+      description: 'list the provisions waiting for users to join the primary server',
+      run: provisionPending
+    }),
+    defineSubcommand({
+      name: 'cancel',
+      description: 'drop the provisions waiting for a user to join the primary server',
+      args: [{ name: 'id' }],
+      examples: ['!provision cancel 134710384627163136'],
+      run: provisionCancel
+    }),
+    defineSubcommand({
+      name: 'restore',
+      description: 'give a member back the roles that were taken away when provisioning last revoked all of them',
+      args: [{ name: 'user', type: 'user' }],
+      examples: ['!provision restore @Someone'],
+      run: provisionRestore
+    })
+  ]
+})
+
+/**
+ * Handler for the provision preview subcommand, which only runs in the primary
+ * guild as that is the guild provisioning applies the diffs to
+ * @async
+ * @param {CommandContext} ctx
+ * @param {{ user: MemberContext, changes?: string[] }} args
+ * @returns {Promise<string>}
+ */
+async function provisionPreview(
+  ctx: CommandContext,
+  { user, changes = [] }: { user: MemberContext; changes?: string[] }
+): Promise<string> {
+  if (ctx.guild.id !== Env.GUILD_ID) {
+    await ctx.dm('Provisioning only changes the roles of members of the primary server, run the preview there.')
+    return 'PROVISION_NOT_PRIMARY'
+  }
+
+  const invalid: string | undefined = changes.find(c => !/^[+-]./.test(c))
+  if (invalid) {
+    await ctx.dm(`\`${invalid}\` must start with \`+\` to assign the role or \`-\` to revoke it.`)
+    return 'INVALID_ARGS'
+  }
+
+  const diff: RoleDiff = {
+    id: user.id,
+    assign: changes.filter(c => c.startsWith('+')).map(c => c.slice(1)),
+    revoke: changes.filter(c => c.startsWith('-')).map(c => (c === '-*' ? REVOKE_ALL : c.slice(1))),
+    dryRun: true
+  }
+
+  // Revoking every role only applies when it is the sole revoke of the diff
+  if (diff.revoke!.includes(REVOKE_ALL)) diff.revoke = [REVOKE_ALL]
+
+  const result: ProvisionResult = await applyProvision(ctx.guild, diff, 'Provisioning preview')
+  await ctx.dm({ embed: provisionPreviewMessage(ctx.guild, user, result) })
+  return `PROVISION_PREVIEW: ${user.id}`
+}
+
+/**
+ * Handler for the provision pending subcommand
+ * @async
+ * @param {CommandContext} ctx
+ * @returns {Promise<string>}
+ */
+async function provisionPending(ctx: CommandContext): Promise<string> {
+  await ctx.dm({ embed: pendingProvisionsMessage(Pending.all()) })
+  return 'PROVISION_PENDING'
+}
+
+/**
+ * Handler for the provision cancel subcommand
+ * @async
+ * @param {CommandContext} ctx
+ * @param {{ id: string }} args
+ * @returns {Promise<string>}
+ */
+async function provisionCancel(ctx: CommandContext, { id }: { id: string }): Promise<string> {
+  // Users that haven't joined can't be mentioned so they're given by ID, although a mention is accepted
+  const user: string = id.replace(/^<@!?(\d+)>$/, '$1')
+
+  if (!Pending.cancel(user)) {
+    await ctx.dm(`There are no provisions waiting for <@${user}> to join.`)
+    return 'PROVISION_NOT_PENDING'
+  }
+
+  await ctx.dm(`Cancelled the provisions waiting for <@${user}> to join.`)
+  return `PROVISION_CANCELLED: ${user}`
+}
+
+/**
+ * Handler for the provision restore subcommand
+ * @async
+ * @param {CommandContext} ctx
+ * @param {{ user: MemberContext }} args
+ * @returns {Promise<string>}
+ */
+async function provisionRestore(ctx: CommandContext, { user }: { user: MemberContext }): Promise<string> {
+  const record: RevocationRecord | null = Revocations.get(ctx.guild.id, user.id)
+  if (!record) {
+    await ctx.dm(`There is no record of provisioning revoking all of the roles of ${user.username}.`)
+    return 'PROVISION_NO_RECORD'
+  }
+
+  const roles: RoleContext[] = record.roles
+    .map(r => ctx.guild.role(r.id))
+    .filter((r): r is RoleContext => r !== null && !user.roles.some(x => x.id === r.id))
+  const restoring: RoleContext[] = roles.filter(r => r.editable)
+  const deleted: string[] = record.roles.filter(r => !ctx.guild.role(r.id)).map(r => r.name)
+  const forbidden: string[] = roles.filter(r => !r.editable).map(r => r.name)
+
+  try {
+    if (restoring.length > 0) await user.addRoles(restoring, `Restored by ${ctx.invoker.username} through bot command`)
+  } catch (e) {
+    log.error(`PROVISION_RESTORE ${user.id}: ${e.message}`)
+    await ctx.dm(`The roles of ${user.username} could not be restored: ${e.message}`)
+    return 'PROVISION_RESTORE_FAILED'
+  }
+
+  Revocations.remove(ctx.guild.id, user.id)
+  const notes: string[] = [
+    ...(deleted.length > 0 ? [`${deleted.join(', ')} no longer exist`] : []),
+    ...(forbidden.length > 0 ? [`the bot isn't permitted to give ${forbidden.join(', ')}`] : [])
+  ]
+  await ctx.dm(
+    `Restored ${restoring.map(r => r.name).join(', ') || 'no roles'} to ${user.username}.` +
+      (notes.length > 0 ? ` Not restored because ${notes.join(' and ')}.` : '')
+  )
+  return `PROVISION_RESTORED: ${user.id}`
+}
@@ -15,34 +15,42 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Message, Guild } from 'discord.js'
+import { CommandContext } from '../context'
+import { CommandDefinition, defineCommand } from '../parser'
 
 /**
  * Calculate the player ratio for teams with A:B
  * @export
+ */
+export const ratio: CommandDefinition = defineCommand({
+  name: 'ratio',
+  category: 'ArmA',
+  description: 'calculate the player ratio for teams with A:B',
+  examples: ['!ratio 60 2 1'],
+  args: [
+    { name: 'total', type: 'int' },
+    { name: 'a', type: 'number' },
+    { name: 'b', type: 'number' }
+  ],
+  run: calculateRatio
+})
+
+/**
+ * Handler for calculating and sending the ratio
  * @async
- * @param {Discord.Guild} _guild
- * @param {Discord.Message} msg
- * @param {string[]} args
+ * @param {CommandContext} ctx
+ * @param {{ total: number, a: number, b: number }} args
  * @returns {Promise<string>}
  */
-export async function ratio(_guild: Guild, msg: Message, args: string[]): Promise<string> {
-  const reqArgs = 3
-
-  // Check for the arguments required
-  if (args.length != reqArgs) {
-    await msg.author.send(`Got ${args.length} inputs instead of ${reqArgs}.`)
-    return 'INVALID_ARGS'
-  }
-
-  // Gather required values
-  const [players, ratioA, ratioB] = args.map(a => parseFloat(a))
-
+async function calculateRatio(
+  ctx: CommandContext,
+  { total, a, b }: { total: number; a: number; b: number }
+): Promise<string> {
   // Calculate the ratio on each side
-  const sideA = Math.round((ratioA * players) / (ratioA + ratioB))
-  const sideB = players - sideA
+  const sideA = Math.round((a * total) / (a + b))
+  const sideB = total - sideA
 
   // Send caluclation message
-  await msg.author.send(`Ratio for ${players} ${ratioA}:${ratioB}\nSide A: ${sideA}\nSide B: ${sideB}`)
+  await ctx.dm(`Ratio for ${total} ${a}:${b}\nSide A: ${sideA}\nSide B: ${sideB}`)
   return 'RATIO_CALCULATION_RESULTS'
 }
@@ -15,45 +15,60 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Message, Guild } from 'discord.js'
+import { CommandContext } from '../context'
 import { Alarms } from '../state'
+import { CommandDefinition, defineCommand, defineSubcommand } from '../parser'
 
 /**
  * Register for an alert when the server hits a certain player count
  * @export
+ */
+export const ready: CommandDefinition = defineCommand({
+  name: 'ready',
+  category: 'ArmA',
+  description:
+    'receive an alert from the bot when the primary server reaches a certain player count or see how many users are waiting for alerts',
+  examples: ['!ready 40', '!ready count'],
+  subcommands: [
+    defineSubcommand({
+      name: 'count',
+      description: 'see how many users are waiting for player count alerts',
+      run: readyCount
+    })
+  ],
+  args: [{ name: 'players', type: 'int' }],
+  run: readyRegister
+})
+
+/**
+ * Handler for the ready count subcommand
  * @async
- * @param {Guild} _guild
- * @param {Message} msg
- * @param {string[]} args
+ * @param {CommandContext} ctx
  * @returns {Promise<string>}
  */
-export async function ready(_guild: Guild, msg: Message, args: string[]): Promise<string> {
-  if (args.length !== 1) {
-    await msg.author.send('The command takes the player count required for the server to trigger your alarm.')
-    return 'INVALID_ARGS'
-  }
-
-  if (args[0] === 'count') {
-    const count: number = Alarms.numberOfAlarms()
-    await msg.author.send(`There are ${count} players waiting for player count alerts.`)
-    return 'READY_ALARMS_COUNT'
-  }
-
-  try {
-    const num: number = parseInt(args[0])
-    const alreadyRegistered: boolean = Alarms.register(num, msg.author)
+async function readyCount(ctx: CommandContext): Promise<string> {
+  const count: number = Alarms.numberOfAlarms(ctx.guild.id)
+  await ctx.dm(`There are ${count} players waiting for player count alerts.`)
+  return 'READY_ALARMS_COUNT'
+}
 
-    if (alreadyRegistered) {
-      await msg.author.send(
-        `Your previous alarm has been overridden and you will be alerted when the primary server reaches or exceeds **${num}** players.`
-      )
-    } else {
-      await msg.author.send(`You will be alerted when the primary server reaches or exceeds **${num}** players.`)
-    }
+/**
+ * Handler for registering a player count alarm
+ * @async
+ * @param {CommandContext} ctx
+ * @param {{ players: number }} args
+ * @returns {Promise<string>}
+ */
+async function readyRegister(ctx: CommandContext, { players }: { players: number }): Promise<string> {
+  const alreadyRegistered: boolean = Alarms.register(ctx.guild.id, players, ctx.invoker.id)
 
-    return 'READY_ALARM_OUTPUT'
-  } catch (e) {
-    await msg.author.send('The parameter for this command must be a number.')
-    return 'INVALID_ARGS'
+  if (alreadyRegistered) {
+    await ctx.dm(
+      `Your previous alarm has been overridden and you will be alerted when the primary server reaches or exceeds **${players}** players.`
+    )
+  } else {
+    await ctx.dm(`You will be alerted when the primary server reaches or exceeds **${players}** players.`)
   }
+
+  return 'READY_ALARM_OUTPUT'
 }
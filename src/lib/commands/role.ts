@@ -15,58 +15,78 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Message, Guild } from 'discord.js'
+import { CommandContext, RoleContext } from '../context'
 import * as log from '../logger'
 import { Env } from '../state'
+import { resolveRoles } from '../permissions'
+import { CommandDefinition, defineCommand, defineSubcommand } from '../parser'
 
 /**
  * Allows a user to join a group that is within their permissions
  * @export
+ */
+export const role: CommandDefinition = defineCommand({
+  name: 'role',
+  category: 'Community',
+  description: 'assign or remove a Discord role if it exists and is in the permitted list',
+  examples: ['!role add Steel_Beasts', '!role remove "Steel Beasts"'],
+  subcommands: [
+    defineSubcommand({
+      name: 'add',
+      description: 'join the group if it exists and you have permission',
+      args: [{ name: 'group', type: 'role' }],
+      run: roleAdd
+    }),
+    defineSubcommand({
+      name: 'remove',
+      description: "leave the group if it exists and you're a member",
+      args: [{ name: 'group', type: 'role' }],
+      run: roleRemove
+    })
+  ]
+})
+
+/**
+ * Handler for the role add subcommand
+ * @async
+ * @param {CommandContext} ctx
+ * @param {{ group: RoleContext }} args
+ * @returns {Promise<string>}
+ */
+async function roleAdd(ctx: CommandContext, { group }: { group: RoleContext }): Promise<string> {
+  if (!(await isAllowed(ctx, group))) return 'INVALID_PERMISSIONS'
+
+  await ctx.invoker.addRole(group, 'Requested through bot command').catch(log.error)
+  await ctx.dm(`Successfully added role '${group.name}'.`)
+  return `ADDED_ROLE: ${group.name}`
+}
+
+/**
+ * Handler for the role remove subcommand
  * @async
- * @param {Discord.Guild} guild
- * @param {Discord.Message} msg
- * @param {string[]} args
+ * @param {CommandContext} ctx
+ * @param {{ group: RoleContext }} args
  * @returns {Promise<string>}
  */
-export async function role(guild: Guild, msg: Message, args: string[]): Promise<string> {
-  // Check if a group name was provided as an argument
-  if (args.length === 0) {
-    await msg.author.send("You didn't provide an action or group.")
-    return 'INVALID_ARGS'
-  }
+async function roleRemove(ctx: CommandContext, { group }: { group: RoleContext }): Promise<string> {
+  if (!(await isAllowed(ctx, group))) return 'INVALID_PERMISSIONS'
 
-  const action: string = args[0]
-  if (action !== 'add' && action !== 'remove') {
-    await msg.author.send('The action must be either `add` or `remove` for the first argument.')
-  }
+  await ctx.invoker.removeRole(group, 'Requested through bot command').catch(log.error)
+  await ctx.dm(`Successfully removed role '${group.name}'.`)
+  return `REMOVED_ROLE: ${group.name}`
+}
 
-  // Get group name from arguments and check if the role exists in the guild
-  const name = args[1].replace(/_/g, ' ')
-  const role = guild.roles.find(r => r.name === name)
+/**
+ * Checks whether the argued group is included in the permitted groups
+ * and lets the user know if it is not
+ * @async
+ * @param {CommandContext} ctx
+ * @param {RoleContext} group
+ * @returns {Promise<boolean>}
+ */
+async function isAllowed(ctx: CommandContext, group: RoleContext): Promise<boolean> {
+  if (resolveRoles(ctx.guild, Env.guild(ctx.guild.id).ALLOWED_GROUPS).some(r => r.id === group.id)) return true
 
-  if (!role) {
-    // If no role with the argued name exists end with that message
-    await msg.author.send(`The group '${name}' does not exist.`)
-    return 'GROUP_DOES_NOT_EXIST'
-  } else if (!Env.ALLOWED_GROUPS.includes(role.name)) {
-    // If the argued group name is not included in the permitted groups
-    await msg.author.send(`You don't have permission to join '${role.name}'.`)
-    return 'INVALID_PERMISSIONS'
-  } else {
-    if (action === 'add') {
-      await guild
-        .member(msg.author)
-        .addRole(role, 'Requested through bot command')
-        .catch(log.error)
-      await msg.author.send(`Successfully added role '${role.name}'.`)
-      return `ADDED_ROLE: ${role.name}`
-    } else {
-      await guild
-        .member(msg.author)
-        .removeRole(role, 'Requested through bot command')
-        .catch(log.error)
-      await msg.author.send(`Successfully removed role '${role.name}'.`)
-      return `REMOVED_ROLE: ${role.name}`
-    }
-  }
+  await ctx.dm(`You don't have permission to join '${group.name}'.`)
+  return false
 }
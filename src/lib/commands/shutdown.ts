@@ -15,20 +15,29 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Message, Guild } from 'discord.js'
+import { CommandContext } from '../context'
+import { CommandDefinition, defineCommand } from '../parser'
 
 /**
  * Shuts down the bot application until restarted manually
  * @export
+ */
+export const shutdown: CommandDefinition = defineCommand({
+  name: 'shutdown',
+  category: 'Admin',
+  description: 'turns off the Discord bot with the correct permissions',
+  run: shutdownBot
+})
+
+/**
+ * Shuts down the bot application until restarted manually
  * @async
- * @param {Discord.Guild} _guild
- * @param {Discord.Message} msg
- * @param {string[]} _args
+ * @param {CommandContext} ctx
  * @returns {Promise<string>}
  */
-export async function shutdown(_guild: Guild, msg: Message, _args: string[]): Promise<string> {
+async function shutdownBot(ctx: CommandContext): Promise<string> {
   // Actual process termination is delayed until after logging
   // See Bot._onMessage
-  await msg.author.send(`You shutdown me down!`)
+  await ctx.dm(`You shutdown me down!`)
   return 'shutdown successful'
 }
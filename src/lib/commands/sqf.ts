@@ -15,31 +15,26 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Message, Guild } from 'discord.js'
+import { CommandContext } from '../context'
+import { CommandDefinition, defineCommand } from '../parser'
 
 /**
  * Searches the BIS developer wiki for information about the
  * argued SQF command and gives the sender details on usage
  * @export
- * @async
- * @param {Guild} _guild
- * @param {Message} msg
- * @param {string[]} args
- * @returns {Promise<string>}
  */
-export async function sqf(_guild: Guild, msg: Message, args: string[]): Promise<string> {
-  // Check for required argument
-  if (args.length !== 1) {
-    await msg.author.send('This command requires 1 argued which is the name of the SQF command.')
-    return 'INVALID_ARGS'
+export const sqf: CommandDefinition = defineCommand({
+  name: 'sqf',
+  category: 'ArmA',
+  description: 'search the BIS wiki for information about an SQF command',
+  examples: ['!sqf setDamage'],
+  args: [{ name: 'command' }],
+  run: async (ctx: CommandContext, { command }: { command: string }): Promise<string> => {
+    // Send the URL to the author for the command
+    await ctx.dm(wikiURL(command))
+    return `SQF_CMD: ${command}`
   }
-
-  // Send the URL to the author for the command
-  const url: string = `https://community.bistudio.com/wiki/${args[0]}`
-  await msg.author.send(url)
-
-  return `SQF_CMD: ${args[0]}`
-}
+})
 
 /**
  * Searches the BIS developer wiki for information about the
@@ -47,22 +42,26 @@ export async function sqf(_guild: Guild, msg: Message, args: string[]): Promise<
  * put posts the result publicly in the channel instead of in
  * private message to the author
  * @export
- * @async
- * @param {Guild} _guild
- * @param {Message} msg
- * @param {string[]} args
- * @returns {Promise<string>}
  */
-export async function sqfp(_guild: Guild, msg: Message, args: string[]): Promise<string> {
-  // Check for required argument
-  if (args.length !== 1) {
-    await msg.author.send('This command requires 1 argued which is the name of the SQF command.')
-    return 'INVALID_ARGS'
+export const sqfp: CommandDefinition = defineCommand({
+  name: 'sqfp',
+  category: 'ArmA',
+  description: 'search BIS wiki for information about an SQF command and post the result publicly',
+  cooldown: 10,
+  examples: ['!sqfp remoteExec'],
+  args: [{ name: 'command' }],
+  run: async (ctx: CommandContext, { command }: { command: string }): Promise<string> => {
+    // Send the URL to the channel for the command
+    await ctx.reply(wikiURL(command))
+    return `SQF_CMD: ${command}`
   }
+})
 
-  // Send the URL to the author for the command
-  const url: string = `https://community.bistudio.com/wiki/${args[0]}`
-  await msg.channel.send(url)
-
-  return `SQF_CMD: ${args[0]}`
+/**
+ * Returns the BIS wiki URL for the SQF command
+ * @param {string} command
+ * @returns {string}
+ */
+function wikiURL(command: string): string {
+  return `https://community.bistudio.com/wiki/${command}`
 }
@@ -15,29 +15,40 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Message, Guild } from 'discord.js'
+import { CommandContext } from '../context'
 import { Bot } from '../../bot'
 import { statsMessage } from '../messages'
 import { Events, Alarms, Groups } from '../state'
+import { CommandDefinition, defineCommand } from '../parser'
 
 /**
  * View runtime statistics collected and stored by the chatbot
  * @export
+ */
+export const stats: CommandDefinition = defineCommand({
+  name: 'stats',
+  category: 'Admin',
+  description: 'view runtime statistics about the bot',
+  run: showStats
+})
+
+/**
+ * View runtime statistics collected and stored by the chatbot
  * @async
- * @param {Discord.Guild} _guild
- * @param {Discord.Message} msg
- * @param {string[]} _args
+ * @param {CommandContext} ctx
  * @returns {Promise<string>}
  */
-export async function stats(_guild: Guild, msg: Message, _args: string[]): Promise<string> {
-  await msg.author.send({
+async function showStats(ctx: CommandContext): Promise<string> {
+  await ctx.dm({
     embed: statsMessage(
       formatUptime(process.uptime()),
       Bot.REQUEST_COUNT,
       Bot.NEW_MEMBER_MESSAGES_SENT,
+      Bot.THROTTLED_COUNT,
       Events.getEvents().length,
-      Alarms.numberOfAlarms(),
-      Groups.getGroups().length
+      Alarms.numberOfAlarms(ctx.guild.id),
+      Groups.getGroups(ctx.guild.id).length,
+      [...Bot.UNKNOWN_COMMANDS.entries()].sort((a, b) => b[1] - a[1]).slice(0, 10)
     )
   })
   return 'RUNTIME_STATS'
@@ -15,10 +15,11 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Message, Guild } from 'discord.js'
+import { CommandContext } from '../context'
 import fetch, { RequestInit } from 'node-fetch'
 import { Env } from '../state'
 import { authenticatedUserMessage } from '../messages'
+import { CommandDefinition, defineCommand } from '../parser'
 
 export type UserEntity = {
   username: string
@@ -34,31 +35,36 @@ export type UserEntity = {
 /**
  * Pulls information about the argued user from the UO Authentication API
  * @export
+ */
+export const user: CommandDefinition = defineCommand({
+  name: 'user',
+  category: 'Admin',
+  description: 'view authentication information for a given user',
+  examples: ['!user Synxe'],
+  args: [{ name: 'username' }],
+  run: userInfo
+})
+
+/**
+ * Handler for requesting and sending the authentication information
  * @async
- * @param {Discord.Guild} _guild
- * @param {Discord.Message} msg
- * @param {string[]} args
+ * @param {CommandContext} ctx
+ * @param {{ username: string }} args
  * @returns {Promise<string>}
  */
-export async function user(_guild: Guild, msg: Message, args: string[]): Promise<string> {
-  // Ensure there was at least one name argued given
-  if (args.length < 1) {
-    await msg.author.send('You must provide the username of the user you are searching for.')
-    return 'INVALID_ARGS'
-  }
-
+async function userInfo(ctx: CommandContext, { username }: { username: string }): Promise<string> {
   // Log into the mission file FTP server and get the list of all mission on the primary server
   const opts: RequestInit = { headers: { 'X-API-Key': Env.AUTH_API_KEY } }
-  const response = await fetch(`${Env.AUTH_API_BASE}/users?username=${args[0]}`, opts)
+  const response = await fetch(`${Env.AUTH_API_BASE}/users?username=${encodeURIComponent(username)}`, opts)
 
   // JSON respsonse will contain an error if the user could not be found, otherwise the user object
   const resJson: { users?: UserEntity[] | null; error?: string } = await response.json()
 
   if (resJson.error) {
-    await msg.author.send(`${args[0]} does not match any authenticated users in the system.`)
+    await ctx.dm(`${username} does not match any authenticated users in the system.`)
     return 'USER_NOT_FOUND'
   }
 
-  await msg.author.send({ embed: authenticatedUserMessage(resJson.users![0]) })
+  await ctx.dm({ embed: authenticatedUserMessage(resJson.users![0]) })
   return 'USER_AUTH_OUTPUT'
 }
@@ -0,0 +1,104 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { EmbedMessage } from './messages'
+
+/**
+ * Type definition for the content of a reply, either plain text or
+ * an embed message with optional text to send alongside it
+ * @export
+ */
+export type ReplyContent = string | { content?: string; embed: EmbedMessage }
+
+/**
+ * Type definition for a role of a guild, `editable` being whether the bot is able
+ * to give and take it, which it can't for managed roles, roles at or above its own
+ * highest role or without the permission to manage roles, and `managed` whether it
+ * is managed by an integration, like the roles of bots and server boosters
+ * @export
+ * @interface RoleContext
+ */
+export interface RoleContext {
+  id: string
+  name: string
+  mention: string
+  editable: boolean
+  managed: boolean
+}
+
+/**
+ * Type definition for a text channel of a guild that can be sent to
+ * @export
+ * @interface ChannelContext
+ */
+export interface ChannelContext {
+  id: string
+  name: string
+  mention: string
+  send(content: ReplyContent): Promise<void>
+}
+
+/**
+ * Type definition for a member of a guild and their roles
+ * @export
+ * @interface MemberContext
+ */
+export interface MemberContext {
+  id: string
+  username: string
+  roles: RoleContext[]
+  addRole(role: RoleContext, reason?: string): Promise<void>
+  removeRole(role: RoleContext, reason?: string): Promise<void>
+  addRoles(roles: RoleContext[], reason?: string): Promise<void>
+  removeRoles(roles: RoleContext[], reason?: string): Promise<void>
+}
+
+/**
+ * Type definition for looking up the channels, roles and members of
+ * the guild that a command runs against
+ * @export
+ * @interface GuildContext
+ */
+export interface GuildContext {
+  id: string
+  name: string
+  channel(id: string): ChannelContext | null
+  channels(): ChannelContext[]
+  role(id: string): RoleContext | null
+  roles(): RoleContext[]
+  member(id: string): MemberContext | null
+  members(): MemberContext[]
+}
+
+/**
+ * Type definition for everything a command needs to know about who ran it
+ * and where, independent of the transport that the command came through.
+ * `channel` is the channel of the guild the command was sent in or null if it
+ * was sent by direct message, `reply` responds where the command was sent, `dm`
+ * privately to the invoker, and `origin` is a short label of the transport used in the logs.
+ * @export
+ * @interface CommandContext
+ */
+export interface CommandContext {
+  origin: string
+  guild: GuildContext
+  channel: ChannelContext | null
+  invoker: MemberContext
+  reply(content: ReplyContent): Promise<void>
+  dm(content: ReplyContent): Promise<void>
+  dmUser(id: string, content: ReplyContent): Promise<void>
+}
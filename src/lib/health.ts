@@ -0,0 +1,61 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { RoutineStatus } from './routine'
+
+/**
+ * Statuses of the connection to the Discord gateway, indexed by the status code of the client
+ * @export
+ */
+export const GATEWAY_STATUSES = ['READY', 'CONNECTING', 'RECONNECTING', 'IDLE', 'NEARLY', 'DISCONNECTED'] as const
+
+/**
+ * Type definition for the status of the connection to the Discord gateway
+ * @export
+ */
+export type GatewayStatus = typeof GATEWAY_STATUSES[number]
+
+/**
+ * Type definition for the health of the bot reported by the health checks. The bot
+ * is `live` unless it has been disconnected from the Discord gateway, and `ready`
+ * once it is connected, the primary guild has resolved, its state stores have been
+ * loaded and the gRPC server is serving. `uptime` is in seconds since the process started.
+ * @export
+ * @interface HealthReport
+ */
+export interface HealthReport {
+  live: boolean
+  ready: boolean
+  version: string
+  uptime: number
+  discord: {
+    status: GatewayStatus
+    ping: number | null
+    readySince: string | null
+  }
+  guilds: {
+    primary: boolean
+    resolved: string[]
+    missing: string[]
+  }
+  stateLoaded: boolean
+  grpc: {
+    serving: boolean
+    address: string | null
+  }
+  routines: Record<string, RoutineStatus>
+}
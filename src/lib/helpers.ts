@@ -17,7 +17,10 @@
 
 import fetch from 'node-fetch'
 import cheerio from 'cheerio'
+import { Client, User, StringResolvable, MessageOptions } from 'discord.js'
 import * as log from './logger'
+import { StoredUser } from './state'
+import { MemberContext } from './context'
 
 /**
  * Interface type for primary server data
@@ -117,3 +120,51 @@ export async function getFeedbackURL(name: string): Promise<string> {
     throw new Error(`failed to retrieve the feedback URL for ${name}`)
   }
 }
+
+/**
+ * Calculates the Levenshtein edit distance between the two strings,
+ * the minimum number of single character insertions, deletions
+ * and substitutions to change one into the other
+ * @export
+ * @param {string} a
+ * @param {string} b
+ * @returns {number}
+ */
+export function editDistance(a: string, b: string): number {
+  let previous: number[] = Array.from({ length: b.length + 1 }, (_, i) => i)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current: number[] = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost: number = a[i - 1] === b[j - 1] ? 0 : 1
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost))
+    }
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+/**
+ * Converts a guild member into the ID based reference kept by the state stores
+ * @export
+ * @param {MemberContext} user
+ * @returns {StoredUser}
+ */
+export function toStoredUser(user: MemberContext): StoredUser {
+  return { id: user.id, username: user.username }
+}
+
+/**
+ * Sends a direct message to the user with the argued ID, fetching
+ * the user from the Discord API if they are not already cached
+ * @export
+ * @async
+ * @param {Client} client
+ * @param {string} id
+ * @param {StringResolvable | MessageOptions} content
+ */
+export async function sendDirectMessage(client: Client, id: string, content: StringResolvable | MessageOptions) {
+  const user: User = await client.fetchUser(id)
+  await user.send(content)
+}
@@ -15,8 +15,51 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
+import { appendFileSync, existsSync, renameSync, statSync, unlinkSync } from 'fs'
+import { randomBytes } from 'crypto'
+import Env from './state/environment'
+
+/**
+ * Levels of log entries in increasing severity
+ * @export
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * Type definition for the context fields of a log entry, like the guild and
+ * user a command ran for and the correlation ID shared by the entries of a request
+ * @export
+ */
+export type LogFields = {
+  guild?: string
+  user?: string
+  command?: string
+  correlationId?: string
+  [field: string]: string | number | boolean | undefined
+}
+
+/**
+ * Type definition for the logging functions of a module, which each module that
+ * has its own log level uses in place of the functions exported by this file
+ * @export
+ * @interface Logger
+ */
+export interface Logger {
+  debug(str: string, fields?: LogFields): void
+  info(str: string, fields?: LogFields): void
+  warn(str: string, fields?: LogFields): void
+  error(str: string, fields?: LogFields): void
+  sys(str: string, fields?: LogFields): void
+  cmd(str: string, fields?: LogFields): void
+  event(str: string, fields?: LogFields): void
+  poll(str: string, fields?: LogFields): void
+  alert(str: string, iteration: string, fields?: LogFields): void
+}
+
 enum Tags {
+  DEBUG = '[DEBUG]',
   INFO = '[INFO]',
+  WARN = '[WARN]',
   ERROR = '[ERROR]',
   SYS = '[SYS]',
   CMD = '[COMMAND]',
@@ -25,34 +68,120 @@ enum Tags {
   ALERT = '[ALERT]'
 }
 
-function withTimestamp(header: string, str: string) {
-  console.log(`${new Date()} ${header.padEnd(10)} ${str}`)
-}
+/**
+ * Severity of each log level for comparing against the configured levels
+ */
+const SEVERITY: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 }
 
-export function info(str: string) {
-  withTimestamp(Tags.INFO, str)
-}
+/**
+ * Module that the functions exported by this file log as
+ */
+const DEFAULT_MODULE: string = 'bot'
 
-export function error(str: string) {
-  withTimestamp(Tags.ERROR, str)
-}
+/**
+ * Size of the current log file in bytes, read when the first entry is written to it
+ */
+let fileSize: number | null = null
 
-export function sys(str: string) {
-  withTimestamp(Tags.SYS, str)
+/**
+ * Creates the logging functions of a module, whose entries are written when their
+ * level is at or above the level configured for the module in `LOG_LEVELS`, or `LOG_LEVEL`
+ * @export
+ * @param {string} module
+ * @returns {Logger}
+ */
+export function moduleLogger(module: string): Logger {
+  const write = (level: LogLevel, tag: Tags) => (str: string, fields?: LogFields) =>
+    withTimestamp(module, level, tag, str, fields)
+
+  return {
+    debug: write('debug', Tags.DEBUG),
+    info: write('info', Tags.INFO),
+    warn: write('warn', Tags.WARN),
+    error: write('error', Tags.ERROR),
+    sys: write('info', Tags.SYS),
+    cmd: write('info', Tags.CMD),
+    event: write('info', Tags.EVENT),
+    poll: write('info', Tags.POLL),
+    alert: (str: string, iteration: string, fields?: LogFields) =>
+      withTimestamp(module, 'info', Tags.ALERT, `${str} (${iteration})`, { ...fields, iteration })
+  }
 }
 
-export function cmd(str: string) {
-  withTimestamp(Tags.CMD, str)
+/**
+ * Metadata key and HTTP header that clients can send the ID to correlate the log entries of their call with
+ * @export
+ */
+export const CORRELATION_HEADER: string = 'x-request-id'
+
+/**
+ * Returns a new random ID to correlate the log entries of a command or request
+ * @export
+ * @returns {string}
+ */
+export function correlationId(): string {
+  return randomBytes(8).toString('hex')
 }
 
-export function event(str: string) {
-  withTimestamp(Tags.EVENT, str)
+function withTimestamp(module: string, level: LogLevel, header: Tags, str: string, fields: LogFields = {}) {
+  const threshold: string = Env.LOG_LEVELS[module] || Env.LOG_LEVEL
+  if (SEVERITY[level] < (SEVERITY[threshold as LogLevel] || 0)) return
+
+  const context: LogFields = Object.keys(fields)
+    .filter(k => fields[k] !== undefined)
+    .reduce((acc, k) => ({ ...acc, [k]: fields[k] }), {})
+  const line: string =
+    Env.LOG_FORMAT === 'text'
+      ? [`${new Date()} ${header.padEnd(10)} ${str}`, ...Object.keys(context).map(k => `${k}=${context[k]}`)].join(' ')
+      : JSON.stringify({
+          timestamp: new Date().toISOString(),
+          level,
+          tag: header.slice(1, -1),
+          module,
+          message: str,
+          ...context
+        })
+
+  console.log(line)
+  if (Env.LOG_FILE) writeFile(line)
 }
 
-export function poll(str: string) {
-  withTimestamp(Tags.POLL, str)
+/**
+ * Appends the line to the log file, rotating it first when it would grow past
+ * `LOG_FILE_MAX_BYTES` so that at most `LOG_FILE_COUNT` rotated files are kept
+ * @param {string} line
+ */
+function writeFile(line: string) {
+  try {
+    if (fileSize === null) fileSize = existsSync(Env.LOG_FILE) ? statSync(Env.LOG_FILE).size : 0
+
+    const bytes: number = Buffer.byteLength(line) + 1
+    if (fileSize > 0 && fileSize + bytes > Env.LOG_FILE_MAX_BYTES) {
+      rotate()
+      fileSize = 0
+    }
+
+    appendFileSync(Env.LOG_FILE, `${line}\n`)
+    fileSize += bytes
+  } catch (e) {
+    console.log(`${new Date()} ${Tags.ERROR.padEnd(10)} LOG_FILE: ${e.message}`)
+  }
 }
 
-export function alert(str: string, iteration: string) {
-  withTimestamp(Tags.ALERT, `${str} (${iteration})`)
+/**
+ * Shifts each rotated log file up by one, `<file>.1` being the most recent,
+ * deleting the oldest once there are `LOG_FILE_COUNT` of them
+ */
+function rotate() {
+  const rotated = (n: number): string => `${Env.LOG_FILE}.${n}`
+
+  if (existsSync(rotated(Env.LOG_FILE_COUNT))) unlinkSync(rotated(Env.LOG_FILE_COUNT))
+  for (let n = Env.LOG_FILE_COUNT - 1; n >= 1; n--) {
+    if (existsSync(rotated(n))) renameSync(rotated(n), rotated(n + 1))
+  }
+
+  if (Env.LOG_FILE_COUNT > 0) renameSync(Env.LOG_FILE, rotated(1))
+  else unlinkSync(Env.LOG_FILE)
 }
+
+export const { debug, info, warn, error, sys, cmd, event, poll, alert } = moduleLogger(DEFAULT_MODULE)
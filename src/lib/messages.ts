@@ -1,8 +1,29 @@
-import { Message, GuildMember } from 'discord.js'
-import { Bot } from '../bot'
-import { CalendarEvent, Group, Flight, PollThread } from './state'
+import { Message, Guild, GuildMember } from 'discord.js'
+import { Bot, CommandRegistration } from '../bot'
+import { ArgumentDefinition, argumentFormats, usageForms } from './parser'
+import { cooldownFor } from './ratelimit'
+import {
+  CalendarEvent,
+  Group,
+  Flight,
+  PollThread,
+  Env,
+  SETTINGS,
+  SettingKey,
+  Policies,
+  CommandPolicy,
+  Toggles,
+  CommandState,
+  PendingProvision,
+  RevocationRecord
+} from './state'
 import { ServerInformation } from './helpers'
 import { UserEntity } from './commands/user'
+import { GuildContext, MemberContext, RoleContext } from './context'
+import { REVOKE_ALL, RoleDiff, ProvisionResult, provisionSummary } from './provisioning'
+import { RelayedEmbed } from './messaging'
+import { resolveRole, levelOf, levelName, rolesForLevel, PermissionLevel } from './permissions'
+import { policyChannels, channelMention } from './access'
 
 interface EmbedMessageImage {
   url: string | null
@@ -13,7 +34,7 @@ interface EmbedMessageField {
   value: string | number
 }
 
-interface EmbedMessage {
+export interface EmbedMessage {
   color: number
   author?: {
     name: string
@@ -30,35 +51,154 @@ interface EmbedMessage {
 /**
  * Create the help message embed for the !? and !help commands
  * @export
- * @param {Map<string, string>} descriptions
+ * @param {GuildContext} guild
+ * @param {Map<string, CommandRegistration[]>} categories
  * @returns {EmbedMessage}
  */
-export const helpMessage = (descriptions: Map<string, string>): EmbedMessage => ({
-  color: 11640433,
-  title: '**Commands**',
-  description:
-    '_All bug reports and feature requests are submitted as issues at https://github.com/unitedoperations/discord-bot_',
-  fields: [...descriptions.entries()].map(e => ({ name: e[0], value: e[1] }))
-})
+export const helpMessage = (guild: GuildContext, categories: Map<string, CommandRegistration[]>): EmbedMessage => {
+  const prefix: string = Env.guild(guild.id).PREFIX
+
+  return {
+    color: 11640433,
+    title: '**Commands**',
+    description: `_Run \`${prefix}help <command>\` for the usage and examples of a command. All bug reports and feature requests are submitted as issues at https://github.com/unitedoperations/discord-bot_`,
+    fields: [...categories.entries()].map(([category, commands]) => ({
+      name: category,
+      value: commands
+        .map(c => {
+          const tags: string[] = [
+            ...(c.provision ? [c.provision.name] : []),
+            ...(Toggles.get(guild.id, c.definition.name).disabled ? ['disabled'] : [])
+          ]
+          const tag: string = tags.length > 0 ? ` _**(${tags.join(', ')})**_` : ''
+          return `\`${prefix}${c.definition.name}\`: _${c.definition.description}_${tag}`
+        })
+        .join('\n')
+    }))
+  }
+}
 
 /**
- * Embed message structure for updates to the bot being announced to a Discord channel
+ * Create the detailed help message embed for a single command
  * @export
- * @param {string} newVersion
+ * @param {GuildContext} guild
+ * @param {CommandRegistration} command
  * @returns {EmbedMessage}
  */
-export const updateMessage = (newVersion: string): EmbedMessage => ({
-  color: 11640433,
-  title: `🤖 **Upgrade to v${newVersion}!**`,
-  description:
-    '_Run the `!?` or `!help` command to see if any new commands were added, or read to changelog to see everything that was updated._',
-  fields: [
+export const commandHelpMessage = (
+  guild: GuildContext,
+  { definition, provision }: CommandRegistration
+): EmbedMessage => {
+  const prefix: string = Env.guild(guild.id).PREFIX
+  const subcommands = definition.subcommands || []
+  const descriptions: string[] = [
+    ...(definition.run ? [definition.description] : []),
+    ...subcommands.map(s => s.description)
+  ]
+
+  // Combine the arguments of every form of the command without duplicates
+  const args: ArgumentDefinition[] = []
+  for (const a of [
+    ...(definition.args || []),
+    ...subcommands.reduce((acc, s) => [...acc, ...(s.args || [])], [] as ArgumentDefinition[])
+  ]) {
+    if (!args.some(x => x.name === a.name)) args.push(a)
+  }
+
+  // Examples are written with the default prefix so show them with the guild's prefix
+  const examples: string[] = [
+    ...(definition.examples || []),
+    ...subcommands.reduce((acc, s) => [...acc, ...(s.examples || [])], [] as string[])
+  ].map(e => e.replace(/^!/, prefix))
+
+  const fields: EmbedMessageField[] = [
     {
-      name: 'Changelog',
-      value:
-        '[Read the changelog for a full list of updates.](https://github.com/unitedoperations/discord-bot/blob/master/.github/CHANGELOG.md)'
+      name: 'Usage',
+      value: usageForms(definition)
+        .map((f, i) => `\`${prefix}${`${definition.name} ${f}`.trim()}\`: _${descriptions[i]}_`)
+        .join('\n')
     }
   ]
+
+  if (args.length > 0) {
+    fields.push({
+      name: 'Arguments',
+      value: args
+        .map(a => {
+          let format: string = a.choices ? `one of ${a.choices.join(', ')}` : argumentFormats[a.type || 'string']
+          if (a.variadic) format = `${a.type ? format : 'text'}, accepts multiple values`
+          return `\`${a.name}\`: ${format}${a.optional ? ' (optional)' : ''}`
+        })
+        .join('\n')
+    })
+  }
+
+  if (examples.length > 0) fields.push({ name: 'Examples', value: examples.map(e => `\`${e}\``).join('\n') })
+
+  if (definition.aliases && definition.aliases.length > 0) {
+    fields.push({ name: 'Aliases', value: definition.aliases.map(a => `\`${prefix}${a}\``).join(', ') })
+  }
+
+  const cooldown: number = cooldownFor(definition)
+  if (cooldown > 0) fields.push({ name: 'Cooldown', value: `${cooldown} seconds` })
+
+  const channels: string[] = policyChannels(guild.id, Policies.get(guild.id, definition.name))
+  if (channels.length > 0)
+    fields.push({ name: 'Channels', value: channels.map(c => channelMention(guild, c)).join(', ') })
+
+  fields.push({ name: 'Permission', value: provision ? provision.requirement(guild) : 'Everyone' })
+
+  const state: CommandState = Toggles.get(guild.id, definition.name)
+  if (state.disabled)
+    fields.push({ name: 'Disabled', value: state.reason || 'Currently broken or temporarily disabled' })
+
+  return {
+    color: 11640433,
+    title: `**❔ ${prefix}${definition.name}**`,
+    description: `_${definition.description}_`,
+    fields
+  }
+}
+
+/**
+ * Embed message structure for updates to the bot being announced to a Discord channel
+ * @export
+ * @param {string} guild
+ * @param {string} newVersion
+ * @returns {EmbedMessage}
+ */
+export const updateMessage = (guild: string, newVersion: string): EmbedMessage => {
+  const prefix: string = Env.guild(guild).PREFIX
+
+  return {
+    color: 11640433,
+    title: `🤖 **Upgrade to v${newVersion}!**`,
+    description: `_Run the \`${prefix}?\` or \`${prefix}help\` command to see if any new commands were added, or read to changelog to see everything that was updated._`,
+    fields: [
+      {
+        name: 'Changelog',
+        value:
+          '[Read the changelog for a full list of updates.](https://github.com/unitedoperations/discord-bot/blob/master/.github/CHANGELOG.md)'
+      }
+    ]
+  }
+}
+
+/**
+ * Embed message structure for an embed sent through the messaging service by another system
+ * @export
+ * @param {RelayedEmbed} embed
+ * @returns {EmbedMessage}
+ */
+export const relayedMessage = (embed: RelayedEmbed): EmbedMessage => ({
+  color: embed.color || 11640433,
+  ...(embed.authorName ? { author: { name: embed.authorName, icon_url: embed.authorIconUrl || '' } } : {}),
+  ...(embed.title ? { title: embed.title } : {}),
+  ...(embed.url ? { url: embed.url } : {}),
+  ...(embed.description ? { description: embed.description } : {}),
+  ...(embed.thumbnailUrl ? { thumbnail: { url: embed.thumbnailUrl } } : {}),
+  ...(embed.imageUrl ? { image: { url: embed.imageUrl } } : {}),
+  fields: (embed.fields || []).map(({ name, value }) => ({ name, value }))
 })
 
 /**
@@ -106,6 +246,23 @@ export const welcomeMessage = (name: string): EmbedMessage => ({
   ]
 })
 
+/**
+ * Compiles the JSON object for the welcome message of new users
+ * joining a guild other than the primary United Operations server
+ * @export
+ * @param {string} name
+ * @param {Guild} guild
+ * @returns {EmbedMessage}
+ */
+export const guildWelcomeMessage = (name: string, guild: Guild): EmbedMessage => ({
+  color: 11640433,
+  title: `👋🏼 **Welcome to ${guild.name}, ${name}!**`,
+  description: `Run \`${Env.guild(guild.id).PREFIX}help\` in the server to see the commands you can use.`,
+  thumbnail: {
+    url: guild.iconURL
+  }
+})
+
 /**
  * Embed message for the bot information request
  * @export
@@ -281,12 +438,14 @@ export const alertsMessage = (alerts: Record<string, string[]>): EmbedMessage =>
 })
 
 /**
- * Creates the embed message for the active list of LFG postings
+ * Creates the embed message for the active list of LFG postings of the guild
  * @export
+ * @param {string} guild
  * @param {Group[]} groups
  * @returns {EmbedMessage}
  */
-export const groupsMessage = (groups: Group[]): EmbedMessage => {
+export const groupsMessage = (guild: string, groups: Group[]): EmbedMessage => {
+  const prefix: string = Env.guild(guild).PREFIX
   const items = groups.map(g => ({
     name: g.name,
     value: `${g.id} - ${g.found.length}/${g.needed} - started by ${g.owner.username}`
@@ -295,26 +454,28 @@ export const groupsMessage = (groups: Group[]): EmbedMessage => {
   return {
     color: 11640433,
     title: '**👥 Active Groups Looking for Players**',
-    description: '_Run `!lfg join <id>` to join one of these active groups_',
+    description: `_Run \`${prefix}lfg join <id>\` to join one of these active groups_`,
     fields:
       items.length > 0
         ? items
         : [
             {
               name: 'No active groups looking for players...',
-              value: 'To make a new group, use the command `!lfg create <# needed> <name>`.'
+              value: `To make a new group, use the command \`${prefix}lfg create <# needed> <name>\`.`
             }
           ]
   }
 }
 
 /**
- * Message structure for listing all existing pickup flights
+ * Message structure for listing all existing pickup flights of the guild
  * @export
+ * @param {string} guild
  * @param {Flight[]} flight
  * @returns {EmbedMessage}
  */
-export const flightsMessage = (flights: Flight[]): EmbedMessage => {
+export const flightsMessage = (guild: string, flights: Flight[]): EmbedMessage => {
+  const prefix: string = Env.guild(guild).PREFIX
   const items = flights.map(f => ({
     name: `${f.game}`,
     value: `${f.id} - started by ${f.owner.username}`
@@ -323,14 +484,14 @@ export const flightsMessage = (flights: Flight[]): EmbedMessage => {
   return {
     color: 11640433,
     title: '**🛩 Active Pickup Flights**',
-    description: 'Run `!flight join <id>` to join of these flights_',
+    description: `Run \`${prefix}flight join <id>\` to join of these flights_`,
     fields:
       items.length > 0
         ? items
         : [
             {
               name: 'No active pickup flights waiting for players...',
-              value: 'To create a flight, use the command `!flight create <BMS|DCS> <HHMM> <MM/DD> <details>`.'
+              value: `To create a flight, use the command \`${prefix}flight create <BMS|DCS> <HHMM> <MM/DD> <details>\`.`
             }
           ]
   }
@@ -345,7 +506,9 @@ export const flightsMessage = (flights: Flight[]): EmbedMessage => {
 export const groupCreatedMessage = (g: Group): EmbedMessage => ({
   color: 11640433,
   title: `👥 _**${g.owner.username}**_ Created Group **${g.name}**`,
-  description: `_Looking for **${g.needed}** players! To join use \`!lfg join ${g.id}\`. This group will expire in 12 hours._`
+  description: `_Looking for **${g.needed}** players! To join use \`${Env.guild(g.guild).PREFIX}lfg join ${
+    g.id
+  }\`. This group will expire in 12 hours._`
 })
 
 /**
@@ -357,7 +520,9 @@ export const groupCreatedMessage = (g: Group): EmbedMessage => ({
 export const flightCreatedMessage = (f: Flight): EmbedMessage => ({
   color: 11640433,
   title: `🛩 _**${f.owner.username}**_ Created Flight **${f.game}-${f.id}**`,
-  description: `_You can join this pickup flight by running \`!flight join ${f.id}\`. This flight will expire in 12 hours._`
+  description: `_You can join this pickup flight by running \`${Env.guild(f.guild).PREFIX}flight join ${
+    f.id
+  }\`. This flight will expire in 12 hours._`
 })
 
 /**
@@ -401,18 +566,22 @@ export const alarmMessage = (x: number): EmbedMessage => ({
  * @param {string} uptime
  * @param {number} reqs
  * @param {number} newMembers
+ * @param {number} throttled
  * @param {number} events
  * @param {number} alarms
  * @param {number} groups
+ * @param {[string, number][]} unknown
  * @returns {EmbedMessage}
  */
 export const statsMessage = (
   uptime: string,
   reqs: number,
   newMembers: number,
+  throttled: number,
   events: number,
   alarms: number,
-  groups: number
+  groups: number,
+  unknown: [string, number][]
 ): EmbedMessage => ({
   color: 11640433,
   title: '**🔢 Runtime Statistics**',
@@ -430,6 +599,10 @@ export const statsMessage = (
       name: 'New Members Joined',
       value: newMembers
     },
+    {
+      name: 'Throttled Requests',
+      value: throttled
+    },
     {
       name: 'Upcoming Events',
       value: events
@@ -441,10 +614,213 @@ export const statsMessage = (
     {
       name: 'Groups Waiting',
       value: groups
+    },
+    {
+      name: 'Most Used Unknown Commands',
+      value: unknown.length > 0 ? unknown.map(([name, count]) => `\`${name}\`: ${count}`).join('\n') : 'None'
     }
   ]
 })
 
+/**
+ * Embed message for listing the current values of the runtime settings in the guild
+ * @export
+ * @param {GuildContext} guild
+ * @param {SettingKey[]} keys
+ * @returns {EmbedMessage}
+ */
+export const configMessage = (guild: GuildContext, keys: SettingKey[]): EmbedMessage => {
+  const prefix: string = Env.guild(guild.id).PREFIX
+
+  return {
+    color: 11640433,
+    title: `**⚙️ Bot Settings for ${guild.name}**`,
+    description: `_Change a setting with \`${prefix}config set <key> <value>\` or restore it with \`${prefix}config reset <key>\`._`,
+    fields: keys.map(k => {
+      const raw: string = Env.raw(guild.id, k)
+      const display: string = raw ? settingDisplay(guild, k, raw) : '`unset`'
+      const source: string = Env.isOverridden(guild.id, k) ? '_(overridden)_' : '_(environment)_'
+      return {
+        name: k,
+        value: `${display} ${source}\n_${SETTINGS[k].description}_`
+      }
+    })
+  }
+}
+
+/**
+ * Embed message for listing whether each command is enabled in the guild
+ * and why and by whom the disabled commands were disabled
+ * @export
+ * @param {GuildContext} guild
+ * @param {string[]} commands
+ * @returns {EmbedMessage}
+ */
+export const commandStatusMessage = (guild: GuildContext, commands: string[]): EmbedMessage => {
+  const prefix: string = Env.guild(guild.id).PREFIX
+  const states: [string, CommandState][] = commands.map(c => [c, Toggles.get(guild.id, c)] as [string, CommandState])
+  const line = ([command, state]: [string, CommandState]): string => {
+    const details: string[] = [
+      ...(state.reason ? [state.reason] : []),
+      ...(state.by ? [`by <@${state.by}>`] : [Toggles.isDeclaredDisabled(command) ? 'since it was added' : ''])
+    ].filter(d => d !== '')
+    return `\`${prefix}${command}\`${details.length > 0 ? `: _${details.join(', ')}_` : ''}`
+  }
+
+  const enabled: string[] = states.filter(([_, s]) => !s.disabled).map(line)
+  const disabled: string[] = states.filter(([_, s]) => s.disabled).map(line)
+
+  return {
+    color: 11640433,
+    title: `**⚙️ Commands in ${guild.name}**`,
+    description: `_Run \`${prefix}command disable <command> [reason]\` or \`${prefix}command enable <command>\` to change them._`,
+    fields: [
+      { name: '✅ Enabled', value: enabled.join('\n') || 'None' },
+      { name: '⛔ Disabled', value: disabled.join('\n') || 'None' }
+    ]
+  }
+}
+
+/**
+ * Embed message for displaying the permission level of a member,
+ * the roles that grant it and the commands they can and can't run
+ * @export
+ * @param {GuildContext} guild
+ * @param {MemberContext} member
+ * @param {string[]} allowed
+ * @param {string[]} denied
+ * @returns {EmbedMessage}
+ */
+export const permissionsMessage = (
+  guild: GuildContext,
+  member: MemberContext,
+  allowed: string[],
+  denied: string[]
+): EmbedMessage => {
+  const level: PermissionLevel = levelOf(guild, member)
+  const granting: string[] = rolesForLevel(guild, level)
+    .filter(r => member.roles.some(m => m.id === r.id))
+    .map(r => r.mention)
+
+  return {
+    color: 11640433,
+    title: `**🔑 Permissions of ${member.username} in ${guild.name}**`,
+    fields: [
+      {
+        name: 'Level',
+        value: `${levelName(level)}${granting.length > 0 ? ` from ${granting.join(', ')}` : ''}`
+      },
+      { name: 'Roles', value: member.roles.map(r => r.mention).join(', ') || 'None' },
+      { name: 'Can Run', value: allowed.join('\n') || 'None' },
+      { name: "Can't Run", value: denied.join('\n') || 'None' }
+    ]
+  }
+}
+
+/**
+ * Embed message for displaying the roles that a dry run of a role diff would change for a member
+ * @export
+ * @param {GuildContext} guild
+ * @param {MemberContext} member
+ * @param {ProvisionResult} result
+ * @returns {EmbedMessage}
+ */
+export const provisionPreviewMessage = (
+  guild: GuildContext,
+  member: MemberContext,
+  result: ProvisionResult
+): EmbedMessage => {
+  const list = (values: string[]): string => values.join(', ') || 'None'
+
+  return {
+    color: result.success ? 11640433 : 15158332,
+    title: `**🔍 Provisioning Preview for ${member.username} in ${guild.name}**`,
+    description: '_Nothing has been changed._',
+    fields: [
+      { name: 'Current Roles', value: member.roles.map(r => r.mention).join(', ') || 'None' },
+      { name: 'Would Assign', value: list(result.assigned) },
+      { name: 'Would Revoke', value: list(result.revoked) },
+      ...(result.unknownRoles.length > 0 ? [{ name: 'Unknown Roles', value: list(result.unknownRoles) }] : []),
+      ...(result.forbiddenRoles.length > 0 ? [{ name: 'Not Permitted', value: list(result.forbiddenRoles) }] : []),
+      ...(result.protectedRoles.length > 0 ? [{ name: 'Kept Protected', value: list(result.protectedRoles) }] : []),
+      { name: 'Result', value: result.success ? 'Would be fully applied' : 'Would not be fully applied' }
+    ]
+  }
+}
+
+/**
+ * Embed message for listing the role provisions waiting for users to join the primary guild
+ * @export
+ * @param {PendingProvision[]} pending
+ * @returns {EmbedMessage}
+ */
+export const pendingProvisionsMessage = (pending: PendingProvision[]): EmbedMessage => {
+  const changes = ({ assign = [], revoke = [] }: RoleDiff): string[] => [
+    ...assign.map(r => `+${r}`),
+    ...revoke.map(r => (r === REVOKE_ALL ? '-*' : `-${r}`))
+  ]
+  const lines: string[] = pending
+    .slice(0, 10)
+    .map(
+      p =>
+        `<@${p.id}>: ${p.diffs.map(d => changes(d).join(' ')).join(', then ')} _(expires ${p.expires.toUTCString()})_`
+    )
+
+  return {
+    color: 11640433,
+    title: '**⏳ Pending Role Provisions**',
+    description: '_Provisions for users who are not members of the primary server are applied when they join._',
+    fields: [
+      {
+        name: `${pending.length} Waiting`,
+        value:
+          pending.length > 10 ? `${lines.join('\n')}\n_and ${pending.length - 10} more_` : lines.join('\n') || 'None'
+      }
+    ]
+  }
+}
+
+/**
+ * Embed message for displaying the policy of a command in the guild
+ * @export
+ * @param {GuildContext} guild
+ * @param {string} command
+ * @param {CommandPolicy} policy
+ * @returns {EmbedMessage}
+ */
+export const policyMessage = (guild: GuildContext, command: string, policy: CommandPolicy): EmbedMessage => {
+  const list = (values: string[] | undefined, none: string): string =>
+    values && values.length > 0 ? values.join(', ') : none
+  const channels: string[] = policyChannels(guild.id, policy).map(c => channelMention(guild, c))
+  const roles = (values: string[] | undefined): string[] =>
+    (values || []).map(v => {
+      const role: RoleContext | null = resolveRole(guild, v)
+      return role ? role.mention : `\`${v}\``
+    })
+
+  const prefix: string = Env.guild(guild.id).PREFIX
+
+  return {
+    color: 11640433,
+    title: `**🛡️ Policy for ${prefix}${command} in ${guild.name}**`,
+    description: Policies.isOverridden(guild.id, command)
+      ? `_Changed with \`${prefix}policy\`, restore it with \`${prefix}policy reset ${command}\`._`
+      : '_The policy the command was added with._',
+    fields: [
+      { name: 'Channels', value: list(channels, 'Any channel') },
+      { name: 'Roles Allowed in Any Channel', value: list(roles(policy.allowedRoles), 'None') },
+      { name: 'Denied Roles', value: list(roles(policy.deniedRoles), 'None') },
+      {
+        name: 'Denied Members',
+        value: list(
+          (policy.deniedUsers || []).map(u => `<@${u}>`),
+          'None'
+        )
+      }
+    ]
+  }
+}
+
 /**
  * Embed message for responding to the !user command for authentication information
  * @param {UserEntity} user
@@ -628,3 +1004,129 @@ export const rolesUpdatedLogMessage = (member: GuildMember, action: string, resu
     }
   ]
 })
+
+/**
+ * Log message for a batch of role diffs applied by the authentication system,
+ * listing the members that could not be fully provisioned
+ * @param {ProvisionResult[]} results
+ * @returns {EmbedMessage}
+ */
+export const provisionBatchLogMessage = (results: ProvisionResult[]): EmbedMessage => {
+  const failures: ProvisionResult[] = results.filter(r => !r.success)
+  const listed: string = failures
+    .slice(0, 10)
+    .map(r => `<@${r.id}>: ${provisionSummary(r)}`)
+    .join('\n')
+
+  return {
+    color: failures.length > 0 ? 15158332 : 15110979,
+    title: 'Roles Provisioned in Batch',
+    fields: [
+      {
+        name: '**Members**',
+        value: `${results.length - failures.length} of ${results.length} provisioned`
+      },
+      {
+        name: '**Updated At**',
+        value: new Date().toUTCString()
+      },
+      {
+        name: '**Failures**',
+        value: failures.length > 10 ? `${listed}\n_and ${failures.length - 10} more_` : listed || 'None'
+      }
+    ]
+  }
+}
+
+/**
+ * Log message for when provisioning revoked every role of a member,
+ * listing the roles that were taken away so they can be restored
+ * @param {RevocationRecord} record
+ * @param {ProvisionResult} result
+ * @returns {EmbedMessage}
+ */
+export const revocationLogMessage = (record: RevocationRecord, result: ProvisionResult): EmbedMessage => ({
+  color: 15158332,
+  title: 'All Roles Revoked',
+  fields: [
+    {
+      name: '**Member**',
+      value: `<@${record.user}>`
+    },
+    {
+      name: '**Removed Roles**',
+      value: record.roles.map(r => r.name).join(', ')
+    },
+    {
+      name: '**Kept Protected Roles**',
+      value: result.protectedRoles.join(', ') || 'None'
+    },
+    {
+      name: '**Revoked At**',
+      value: record.revoked.toUTCString()
+    },
+    {
+      name: '**Restore**',
+      value: `\`${Env.guild(Env.GUILD_ID).PREFIX}provision restore ${record.user}\``
+    }
+  ]
+})
+
+/**
+ * Log message for when a call to the gRPC provisioning service is rejected
+ * @param {string} method
+ * @param {string} peer
+ * @param {string} reason
+ * @returns {EmbedMessage}
+ */
+export const rpcRejectedLogMessage = (method: string, peer: string, reason: string): EmbedMessage => ({
+  color: 15158332,
+  title: 'gRPC Call Rejected',
+  fields: [
+    {
+      name: '**Method**',
+      value: method
+    },
+    {
+      name: '**Peer**',
+      value: peer
+    },
+    {
+      name: '**Rejected At**',
+      value: new Date().toUTCString()
+    },
+    {
+      name: '**Reason**',
+      value: reason
+    }
+  ]
+})
+
+/**
+ * Formats the value of a setting for display, mentioning the
+ * channels and the roles that are configured by ID
+ * @export
+ * @param {GuildContext} guild
+ * @param {SettingKey} key
+ * @param {string} raw
+ * @returns {string}
+ */
+export function settingDisplay(guild: GuildContext, key: SettingKey, raw: string): string {
+  switch (SETTINGS[key].type) {
+    case 'channel':
+      return `<#${raw}>`
+    case 'role':
+    case 'roles':
+      return raw
+        .split(',')
+        .map(v => v.trim())
+        .filter(v => v !== '')
+        .map(v => {
+          const role: RoleContext | null = /^\d+$/.test(v) ? resolveRole(guild, v) : null
+          return role ? role.mention : `\`${v}\``
+        })
+        .join(', ')
+    default:
+      return `\`${raw}\``
+  }
+}
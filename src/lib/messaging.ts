@@ -0,0 +1,164 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ReplyContent } from './context'
+import { relayedMessage } from './messages'
+import { SettingKey } from './state'
+
+/**
+ * Channel settings of the primary guild that other systems can send messages to, by the key they use
+ * @export
+ */
+export const CHANNEL_KEYS: Record<string, SettingKey> = {
+  main: 'MAIN_CHANNEL',
+  arma: 'ARMA_CHANNEL',
+  bms: 'BMS_CHANNEL',
+  flights: 'FLIGHTS_CHANNEL',
+  regulars: 'REGULARS_CHANNEL'
+}
+
+/**
+ * Type definition for an embed sent by another system through the messaging service
+ * @export
+ */
+export type RelayedEmbed = {
+  color?: number
+  title?: string
+  url?: string
+  description?: string
+  authorName?: string
+  authorIconUrl?: string
+  thumbnailUrl?: string
+  imageUrl?: string
+  fields?: { name: string; value: string }[]
+}
+
+/**
+ * Type definition for the text and embed of a message sent by another system
+ * @export
+ */
+export type RelayedContent = {
+  content?: string
+  embed?: RelayedEmbed | null
+}
+
+/**
+ * Type definition for where a message sent by the bot can be found again, either
+ * in a text channel by its ID or in the direct messages of a user by their ID
+ * @export
+ */
+export type MessageHandle = {
+  kind: 'channel' | 'dm'
+  target: string
+  message: string
+}
+
+/**
+ * Error thrown when a request of the messaging service can't be carried out, with
+ * the code of the gRPC status that it should be reported to clients as
+ * @export
+ * @class MessagingError
+ * @extends Error
+ */
+export class MessagingError extends Error {
+  public readonly code: 'NOT_FOUND' | 'INVALID_ARGUMENT' | 'FAILED_PRECONDITION' | 'PERMISSION_DENIED'
+
+  constructor(code: 'NOT_FOUND' | 'INVALID_ARGUMENT' | 'FAILED_PRECONDITION' | 'PERMISSION_DENIED', message: string) {
+    super(message)
+    this.name = 'MessagingError'
+    this.code = code
+    Object.setPrototypeOf(this, MessagingError.prototype)
+  }
+}
+
+/**
+ * Discord API error codes of failed requests and how they are reported to clients
+ */
+const API_ERRORS: Record<number, [MessagingError['code'], string]> = {
+  10003: ['NOT_FOUND', 'the channel of the message no longer exists'],
+  10008: ['NOT_FOUND', 'the message no longer exists'],
+  10013: ['NOT_FOUND', 'the user does not exist'],
+  50007: ['FAILED_PRECONDITION', "the member doesn't accept direct messages from the bot"],
+  50013: ['FAILED_PRECONDITION', "the bot doesn't have the permissions to send the message there"],
+  50035: ['INVALID_ARGUMENT', 'the message is too long or malformed']
+}
+
+/**
+ * Returns the channel setting for the key of a channel that messages can be sent to
+ * @export
+ * @throws {MessagingError}
+ * @param {string} key
+ * @returns {SettingKey}
+ */
+export function channelSetting(key: string): SettingKey {
+  const setting: SettingKey | undefined = CHANNEL_KEYS[key.toLowerCase()]
+  if (!setting) {
+    const keys: string = Object.keys(CHANNEL_KEYS).join(', ')
+    throw new MessagingError('INVALID_ARGUMENT', `'${key}' is not a channel key, use one of ${keys}`)
+  }
+
+  return setting
+}
+
+/**
+ * Converts the text and embed sent by another system into the content of a message
+ * @export
+ * @throws {MessagingError}
+ * @param {RelayedContent} relayed
+ * @returns {ReplyContent}
+ */
+export function relayedContent({ content, embed }: RelayedContent): ReplyContent {
+  if (!content && !embed) throw new MessagingError('INVALID_ARGUMENT', 'the message needs content or an embed')
+  return embed ? { content, embed: relayedMessage(embed) } : content!
+}
+
+/**
+ * Encodes where a sent message can be found as the opaque handle given to the client
+ * @export
+ * @param {MessageHandle} handle
+ * @returns {string}
+ */
+export function encodeHandle({ kind, target, message }: MessageHandle): string {
+  return Buffer.from(`${kind}:${target}:${message}`).toString('base64')
+}
+
+/**
+ * Decodes where a sent message can be found from its handle
+ * @export
+ * @throws {MessagingError}
+ * @param {string} handle
+ * @returns {MessageHandle}
+ */
+export function decodeHandle(handle: string): MessageHandle {
+  const match = /^(channel|dm):(\d+):(\d+)$/.exec(Buffer.from(handle, 'base64').toString())
+  if (!match) throw new MessagingError('INVALID_ARGUMENT', 'the message handle is invalid')
+  return { kind: match[1] as 'channel' | 'dm', target: match[2], message: match[3] }
+}
+
+/**
+ * Converts an error of a Discord API request into the error reported to the client,
+ * passing through messaging errors and errors that aren't known API errors
+ * @export
+ * @param {Error & { code?: number }} e
+ * @returns {Error}
+ */
+export function apiFailure(e: Error & { code?: number }): Error {
+  if (e instanceof MessagingError || e.code === undefined || !API_ERRORS[e.code]) return e
+
+  const [code, message] = API_ERRORS[e.code]
+  return new MessagingError(code, message)
+}
@@ -0,0 +1,336 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Alarms, Env, Groups } from './state'
+
+/**
+ * Type definition for the values of the labels of a metric by their names
+ * @export
+ */
+export type Labels = Record<string, string>
+
+/**
+ * Type definition for a metric that is rendered in the Prometheus text exposition format
+ * @interface Metric
+ */
+interface Metric {
+  render(): string[]
+}
+
+/**
+ * Metrics that are rendered for the `/metrics` endpoint, in the order they were created
+ */
+const registry: Metric[] = []
+
+/**
+ * Prefix of the names of every metric exported by the bot
+ */
+const PREFIX: string = 'uo_bot_'
+
+/**
+ * Counter of how many times something has happened for each set of label values
+ * @export
+ * @class Counter
+ * @implements Metric
+ * @property {string} name
+ * @property {string} help
+ * @property {Map<string, number>} _values
+ */
+export class Counter implements Metric {
+  public readonly name: string
+  public readonly help: string
+  private _values: Map<string, number> = new Map()
+
+  /**
+   * Creates an instance of Counter and registers it for rendering
+   * @param {string} name
+   * @param {string} help
+   * @memberof Counter
+   */
+  constructor(name: string, help: string) {
+    this.name = `${PREFIX}${name}`
+    this.help = help
+    registry.push(this)
+  }
+
+  /**
+   * Increases the counter of the label values by the amount
+   * @param {Labels} [labels={}]
+   * @param {number} [amount=1]
+   * @memberof Counter
+   */
+  inc(labels: Labels = {}, amount: number = 1) {
+    const key: string = labelKey(labels)
+    this._values.set(key, (this._values.get(key) || 0) + amount)
+  }
+
+  /**
+   * Renders the counter of each set of label values
+   * @returns {string[]}
+   * @memberof Counter
+   */
+  render(): string[] {
+    const lines: string[] = header(this.name, this.help, 'counter')
+    for (const [key, value] of this._values) lines.push(`${this.name}${key} ${value}`)
+    return lines
+  }
+}
+
+/**
+ * Gauge whose values are collected each time the metrics are rendered
+ * @export
+ * @class Gauge
+ * @implements Metric
+ * @property {string} name
+ * @property {string} help
+ * @property {() => [Labels, number][]} _collect
+ */
+export class Gauge implements Metric {
+  public readonly name: string
+  public readonly help: string
+  private _collect: () => [Labels, number][]
+
+  /**
+   * Creates an instance of Gauge and registers it for rendering
+   * @param {string} name
+   * @param {string} help
+   * @param {() => [Labels, number][]} collect
+   * @memberof Gauge
+   */
+  constructor(name: string, help: string, collect: () => [Labels, number][]) {
+    this.name = `${PREFIX}${name}`
+    this.help = help
+    this._collect = collect
+    registry.push(this)
+  }
+
+  /**
+   * Renders the collected value of each set of label values
+   * @returns {string[]}
+   * @memberof Gauge
+   */
+  render(): string[] {
+    const lines: string[] = header(this.name, this.help, 'gauge')
+    for (const [labels, value] of this._collect()) lines.push(`${this.name}${labelKey(labels)} ${value}`)
+    return lines
+  }
+}
+
+/**
+ * Histogram of observed values, like durations in seconds, counted into
+ * cumulative buckets by their upper bounds for each set of label values
+ * @export
+ * @class Histogram
+ * @implements Metric
+ * @property {string} name
+ * @property {string} help
+ * @property {number[]} _buckets
+ * @property {Map<string, { labels: Labels, counts: number[], sum: number, count: number }>} _series
+ */
+export class Histogram implements Metric {
+  public readonly name: string
+  public readonly help: string
+  private _buckets: number[]
+  private _series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map()
+
+  /**
+   * Creates an instance of Histogram and registers it for rendering
+   * @param {string} name
+   * @param {string} help
+   * @param {number[]} buckets
+   * @memberof Histogram
+   */
+  constructor(name: string, help: string, buckets: number[]) {
+    this.name = `${PREFIX}${name}`
+    this.help = help
+    this._buckets = [...buckets].sort((a, b) => a - b)
+    registry.push(this)
+  }
+
+  /**
+   * Records the value for the label values
+   * @param {Labels} labels
+   * @param {number} value
+   * @memberof Histogram
+   */
+  observe(labels: Labels, value: number) {
+    const key: string = labelKey(labels)
+    if (!this._series.has(key)) {
+      this._series.set(key, { labels, counts: this._buckets.map(() => 0), sum: 0, count: 0 })
+    }
+
+    const series = this._series.get(key)!
+    this._buckets.forEach((bound, i) => {
+      if (value <= bound) series.counts[i]++
+    })
+    series.sum += value
+    series.count++
+  }
+
+  /**
+   * Starts a timer that records the seconds elapsed for the label values when it is called
+   * @param {Labels} labels
+   * @returns {() => void}
+   * @memberof Histogram
+   */
+  startTimer(labels: Labels): () => void {
+    const start: [number, number] = process.hrtime()
+    return () => {
+      const [seconds, nanoseconds] = process.hrtime(start)
+      this.observe(labels, seconds + nanoseconds / 1e9)
+    }
+  }
+
+  /**
+   * Renders the buckets, sum and count of each set of label values
+   * @returns {string[]}
+   * @memberof Histogram
+   */
+  render(): string[] {
+    const lines: string[] = header(this.name, this.help, 'histogram')
+    for (const [key, { labels, counts, sum, count }] of this._series) {
+      this._buckets.forEach((bound, i) =>
+        lines.push(`${this.name}_bucket${labelKey({ ...labels, le: bound.toString() })} ${counts[i]}`)
+      )
+      lines.push(`${this.name}_bucket${labelKey({ ...labels, le: '+Inf' })} ${count}`)
+      lines.push(`${this.name}_sum${key} ${sum}`)
+      lines.push(`${this.name}_count${key} ${count}`)
+    }
+    return lines
+  }
+}
+
+/**
+ * Renders every metric in the Prometheus text exposition format
+ * @export
+ * @returns {string}
+ */
+export function renderMetrics(): string {
+  return registry.map(m => m.render().join('\n')).join('\n') + '\n'
+}
+
+/**
+ * Returns the outcome of a command from its output, which is the output code it starts with,
+ * like `GROUP_NOT_FOUND` for `GROUP_NOT_FOUND` or `CONFIG_SET` for `CONFIG_SET: PREFIX=?`,
+ * or `OK` for the commands that don't return a code so that the outcomes stay a small set
+ * @export
+ * @param {string} output
+ * @returns {string}
+ */
+export function commandOutcome(output: string): string {
+  const match: RegExpExecArray | null = /^[A-Z][A-Z_]*/.exec(output)
+  return match ? match[0] : 'OK'
+}
+
+/**
+ * Renders the HELP and TYPE lines of a metric
+ * @param {string} name
+ * @param {string} help
+ * @param {string} type
+ * @returns {string[]}
+ */
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`]
+}
+
+/**
+ * Renders the label values as they appear after the name of a metric,
+ * which is also the key that the values of a counter are kept by
+ * @param {Labels} labels
+ * @returns {string}
+ */
+function labelKey(labels: Labels): string {
+  const pairs: string[] = Object.keys(labels)
+    .sort()
+    .map(
+      k =>
+        `${k}="${labels[k]
+          .replace(/\\/g, '\\\\')
+          .replace(/\n/g, '\\n')
+          .replace(/"/g, '\\"')}"`
+    )
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+}
+
+/**
+ * Commands that have been invoked by the name they were registered with and their outcome
+ * @export
+ */
+export const commandInvocations = new Counter(
+  'command_invocations_total',
+  'Commands invoked by their name and the outcome they returned'
+)
+
+/**
+ * Seconds that the commands took to run by the name they were registered with
+ * @export
+ */
+export const commandDuration = new Histogram('command_duration_seconds', 'Seconds that commands took to run', [
+  0.05,
+  0.1,
+  0.25,
+  0.5,
+  1,
+  2.5,
+  5,
+  10
+])
+
+/**
+ * Role provisions received from other systems by the call they came through and their result
+ * @export
+ */
+export const provisions = new Counter(
+  'provisions_total',
+  'Role provisions received through the gRPC and JSON APIs by the call and their result'
+)
+
+/**
+ * Times the Discord client has reconnected to the gateway
+ * @export
+ */
+export const gatewayReconnects = new Counter('discord_reconnects_total', 'Reconnections to the Discord gateway')
+
+/**
+ * Direct messages that couldn't be sent, by what was sending them
+ * @export
+ */
+export const dmFailures = new Counter('dm_failures_total', 'Direct messages that could not be sent by what sent them')
+
+/**
+ * Groups that are looking for members in each of the configured guilds
+ * @export
+ */
+export const activeGroups = new Gauge('active_groups', 'Groups looking for members in each server', () =>
+  Env.GUILD_IDS.map((guild): [Labels, number] => [{ guild }, Groups.getGroups(guild).length])
+)
+
+/**
+ * Flights that are scheduled in each of the configured guilds
+ * @export
+ */
+export const activeFlights = new Gauge('active_flights', 'Flights scheduled in each server', () =>
+  Env.GUILD_IDS.map((guild): [Labels, number] => [{ guild }, Groups.getFlights(guild).length])
+)
+
+/**
+ * Player count alarms that are registered in each of the configured guilds
+ * @export
+ */
+export const activeAlarms = new Gauge('active_alarms', 'Player count alarms registered in each server', () =>
+  Env.GUILD_IDS.map((guild): [Labels, number] => [{ guild }, Alarms.numberOfAlarms(guild)])
+)
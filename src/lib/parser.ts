@@ -0,0 +1,551 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { BotAction } from '../bot'
+import { CommandContext, GuildContext, MemberContext, RoleContext, ChannelContext } from './context'
+import { Env } from './state'
+
+/**
+ * Value types that a command argument can be converted into
+ * @export
+ */
+export type ArgumentType = 'string' | 'int' | 'number' | 'date' | 'time' | 'user' | 'role' | 'channel'
+
+/**
+ * Type definition for a single positional argument of a command. The name and
+ * choices are generic so that `defineCommand` can infer the values of the arguments.
+ * @export
+ * @interface ArgumentDefinition
+ */
+export interface ArgumentDefinition<N extends string = string, C extends string = string> {
+  name: N
+  type?: ArgumentType
+  optional?: boolean
+  variadic?: boolean
+  choices?: C[]
+}
+
+/**
+ * Type definition for a parsed `HH:MM` time argument
+ * @export
+ * @interface TimeOfDay
+ */
+export interface TimeOfDay {
+  hours: number
+  minutes: number
+}
+
+/**
+ * Type definition for the value that a single argument token is converted into
+ * @export
+ */
+export type ArgumentValue = string | number | Date | TimeOfDay | MemberContext | RoleContext | ChannelContext
+
+/**
+ * Type definition for the converted argument values keyed by argument name,
+ * which are lists of values for variadic arguments
+ * @export
+ */
+export type ParsedArguments = Record<string, unknown>
+
+/**
+ * The value that a token is converted into for each argument type
+ */
+type ArgumentTypeValues = {
+  string: string
+  int: number
+  number: number
+  date: Date
+  time: TimeOfDay
+  user: MemberContext
+  role: RoleContext
+  channel: ChannelContext
+}
+
+/**
+ * The value of a single token of the argument definition, which is one of its choices when it has them
+ */
+type ValueOf<D> = D extends { choices: (infer C)[] }
+  ? C
+  : D extends { type: infer T }
+  ? T extends ArgumentType
+    ? ArgumentTypeValues[T]
+    : never
+  : string
+
+/**
+ * The value of the argument definition, which is a list for variadic arguments
+ */
+type ValuesOf<D> = D extends { variadic: true } ? ValueOf<D>[] : ValueOf<D>
+
+/**
+ * The names of the argument definitions that are always parsed, which includes
+ * optional variadic arguments as they are parsed into an empty list
+ */
+type RequiredNames<D> = D extends { optional: true; variadic?: false } ? never : D extends { name: infer N } ? N : never
+
+/**
+ * The names of the optional argument definitions that are left out when they aren't given
+ */
+type OptionalNames<D> = D extends { optional: true; variadic?: false; name: infer N } ? N : never
+
+/**
+ * Type definition for the converted argument values of a list of argument definitions
+ * @export
+ */
+export type ArgumentsOf<A extends ArgumentDefinition[]> = {
+  [N in RequiredNames<A[number]> & string]: ValuesOf<Extract<A[number], { name: N }>>
+} &
+  { [N in OptionalNames<A[number]> & string]?: ValuesOf<Extract<A[number], { name: N }>> }
+
+/**
+ * Type definition for the function that handles a parsed command or subcommand
+ * @export
+ */
+export type CommandHandler<A = ParsedArguments> = (ctx: CommandContext, args: A) => Promise<string>
+
+/**
+ * Type definition for a subcommand of a declared command, which is created
+ * with `defineSubcommand` so that its handler is checked against its arguments
+ * @export
+ * @interface SubcommandDefinition
+ */
+export interface SubcommandDefinition {
+  name: string
+  description: string
+  args?: ArgumentDefinition[]
+  examples?: string[]
+  run: CommandHandler
+}
+
+/**
+ * Type definition for a declared bot command, which is created with `defineCommand` so that
+ * its handler is checked against its arguments. The top level `args` and `run` are used
+ * when the first argument does not match any of the subcommands.
+ * @export
+ * @interface CommandDefinition
+ */
+export interface CommandDefinition {
+  name: string
+  description: string
+  aliases?: string[]
+  category?: string
+  examples?: string[]
+  cooldown?: number
+  args?: ArgumentDefinition[]
+  subcommands?: SubcommandDefinition[]
+  defaultSubcommand?: string
+  run?: CommandHandler
+}
+
+/**
+ * Type definition for the declaration of a subcommand with the handler taking the values of its arguments
+ * @export
+ */
+export type SubcommandDeclaration<A extends ArgumentDefinition[]> = Omit<SubcommandDefinition, 'args' | 'run'> & {
+  args?: A
+  run: CommandHandler<ArgumentsOf<A>>
+}
+
+/**
+ * Type definition for the declaration of a command with the handler taking the values of its top level arguments
+ * @export
+ */
+export type CommandDeclaration<A extends ArgumentDefinition[]> = Omit<CommandDefinition, 'args' | 'run'> & {
+  args?: A
+  run?: CommandHandler<ArgumentsOf<A>>
+}
+
+/**
+ * Creates a command definition from the declaration, inferring the
+ * values that its handler is run with from its argument definitions
+ * @export
+ * @template A, N, C
+ * @param {CommandDeclaration<A>} def
+ * @returns {CommandDefinition}
+ */
+export function defineCommand<
+  A extends ArgumentDefinition<N, C>[] = [],
+  N extends string = string,
+  C extends string = string
+>(def: CommandDeclaration<A>): CommandDefinition {
+  const { run } = def
+  return { ...def, run: run && handlerOf(run) }
+}
+
+/**
+ * Creates a subcommand definition from the declaration, inferring the
+ * values that its handler is run with from its argument definitions
+ * @export
+ * @template A, N, C
+ * @param {SubcommandDeclaration<A>} def
+ * @returns {SubcommandDefinition}
+ */
+export function defineSubcommand<
+  A extends ArgumentDefinition<N, C>[] = [],
+  N extends string = string,
+  C extends string = string
+>(def: SubcommandDeclaration<A>): SubcommandDefinition {
+  return { ...def, run: handlerOf(def.run) }
+}
+
+/**
+ * Wraps a handler of the values of its arguments into a handler of parsed arguments. The arguments
+ * are parsed from the same definitions that their values are inferred from, which makes this the
+ * one place where the parsed arguments are treated as the values the handler declares.
+ * @template A
+ * @param {CommandHandler<ArgumentsOf<A>>} run
+ * @returns {CommandHandler}
+ */
+function handlerOf<A extends ArgumentDefinition[]>(run: CommandHandler<ArgumentsOf<A>>): CommandHandler {
+  return (ctx: CommandContext, args: ParsedArguments) => run(ctx, args as ArgumentsOf<A>)
+}
+
+/**
+ * Error thrown when the arguments given to a command do not match its definition
+ * @export
+ * @class UsageError
+ * @extends Error
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UsageError'
+    Object.setPrototypeOf(this, UsageError.prototype)
+  }
+}
+
+/**
+ * Splits the content of a message into tokens on any run of whitespace,
+ * including newlines, keeping double quoted strings together as a single token.
+ * Zero width characters that some clients insert are removed first.
+ * @export
+ * @param {string} input
+ * @returns {string[]}
+ */
+export function tokenize(input: string): string[] {
+  const tokens: string[] = []
+  const pattern: RegExp = /"([^"]*)"?|“([^”]*)”?|(\S+)/g
+  const content: string = input.replace(/[\u200b-\u200d\ufeff]/g, '')
+
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(content)) !== null) {
+    tokens.push(match[1] !== undefined ? match[1] : match[2] !== undefined ? match[2] : match[3])
+  }
+
+  return tokens
+}
+
+/**
+ * Human readable formats of each argument type for help output
+ * @export
+ */
+export const argumentFormats: Record<ArgumentType, string> = {
+  string: 'text, wrap in double quotes to include spaces',
+  int: 'whole number',
+  number: 'number',
+  date: '`MM/DD` date',
+  time: '`HH:MM` 24-hour zulu time',
+  user: 'member @mention or ID',
+  role: 'role @mention or name, with underscores for spaces',
+  channel: 'channel #mention, ID or name'
+}
+
+/**
+ * Creates the usage string for a list of argument definitions
+ * @export
+ * @param {ArgumentDefinition[]} [args=[]]
+ * @returns {string}
+ */
+export function argumentUsage(args: ArgumentDefinition[] = []): string {
+  return args
+    .map(a => {
+      const label: string = (a.choices ? a.choices.join('|') : a.name) + (a.variadic ? '...' : '')
+      return a.optional ? `[${label}]` : `<${label}>`
+    })
+    .join(' ')
+}
+
+/**
+ * Creates the full usage string of a command with all of its subcommands
+ * @export
+ * @param {CommandDefinition} def
+ * @param {string} [prefix='!']
+ * @returns {string}
+ */
+export function usage(def: CommandDefinition, prefix: string = '!'): string {
+  const body: string = usageForms(def)
+    .filter(f => f !== '')
+    .join(' | ')
+  return body ? `${prefix}${def.name} ${body}` : `${prefix}${def.name}`
+}
+
+/**
+ * Creates the usage string of each top level and subcommand form of a command
+ * @export
+ * @param {CommandDefinition} def
+ * @returns {string[]}
+ */
+export function usageForms(def: CommandDefinition): string[] {
+  const forms: string[] = []
+  if (def.run) forms.push(argumentUsage(def.args))
+  if (def.subcommands) forms.push(...def.subcommands.map(s => `${s.name} ${argumentUsage(s.args)}`.trim()))
+  return forms
+}
+
+/**
+ * Compiles a command definition into a bot action that parses its arguments
+ * and responds to the user with the command usage when they are invalid
+ * @export
+ * @param {CommandDefinition} def
+ * @returns {BotAction}
+ */
+export function compile(def: CommandDefinition): BotAction {
+  const action: BotAction = async (ctx: CommandContext, tokens: string[]): Promise<string> => {
+    let run: CommandHandler
+    let args: ParsedArguments
+
+    try {
+      ;({ run, args } = parse(def, ctx.guild, tokens))
+    } catch (e) {
+      if (!(e instanceof UsageError)) throw e
+      const prefix: string = Env.guild(ctx.guild.id).PREFIX
+      await ctx.dm(
+        `Invalid arguments for the \`${prefix}${def.name}\` command: ${e.message}.\nUsage: \`${usage(def, prefix)}\``
+      )
+      return 'INVALID_ARGS'
+    }
+
+    return await run(ctx, args)
+  }
+
+  Object.defineProperty(action, 'name', { value: def.name })
+  return action
+}
+
+/**
+ * Resolves the handler to run for the tokens and converts the
+ * remaining tokens into the values of its declared arguments
+ * @export
+ * @throws {UsageError}
+ * @param {CommandDefinition} def
+ * @param {GuildContext} guild
+ * @param {string[]} tokens
+ * @returns {{ run: CommandHandler, args: ParsedArguments }}
+ */
+export function parse(
+  def: CommandDefinition,
+  guild: GuildContext,
+  tokens: string[]
+): { run: CommandHandler; args: ParsedArguments } {
+  const subcommands: SubcommandDefinition[] = def.subcommands || []
+
+  // Fall back to the default subcommand when no arguments are given
+  if (tokens.length === 0 && def.defaultSubcommand) tokens = [def.defaultSubcommand]
+
+  const sub: SubcommandDefinition | undefined =
+    tokens.length > 0 ? subcommands.find(s => s.name === tokens[0].toLowerCase()) : undefined
+
+  if (sub) return { run: sub.run, args: parseArguments(sub.args || [], guild, tokens.slice(1)) }
+  if (def.run) return { run: def.run, args: parseArguments(def.args || [], guild, tokens) }
+
+  throw new UsageError(tokens.length > 0 ? `unknown subcommand \`${tokens[0]}\`` : 'a subcommand is required')
+}
+
+/**
+ * Converts the tokens into the values for each of the argument definitions
+ * @throws {UsageError}
+ * @param {ArgumentDefinition[]} defs
+ * @param {GuildContext} guild
+ * @param {string[]} tokens
+ * @returns {ParsedArguments}
+ */
+function parseArguments(defs: ArgumentDefinition[], guild: GuildContext, tokens: string[]): ParsedArguments {
+  const args: ParsedArguments = {}
+  let i: number = 0
+
+  for (const d of defs) {
+    if (d.variadic) {
+      const rest: string[] = tokens.slice(i)
+      if (rest.length === 0 && !d.optional) throw new UsageError(`missing argument \`${d.name}\``)
+      args[d.name] = rest.map(t => convert(d, guild, t))
+      i = tokens.length
+    } else if (i < tokens.length) {
+      args[d.name] = convert(d, guild, tokens[i++])
+    } else if (!d.optional) {
+      throw new UsageError(`missing argument \`${d.name}\``)
+    }
+  }
+
+  if (i < tokens.length) throw new UsageError(`unexpected argument \`${tokens[i]}\``)
+  return args
+}
+
+/**
+ * Converts a single token into the type of the argument definition
+ * @throws {UsageError}
+ * @param {ArgumentDefinition} def
+ * @param {GuildContext} guild
+ * @param {string} token
+ * @returns {ArgumentValue}
+ */
+function convert(def: ArgumentDefinition, guild: GuildContext, token: string): ArgumentValue {
+  if (def.choices) {
+    const choice: string | undefined = def.choices.find(c => c.toLowerCase() === token.toLowerCase())
+    if (!choice) throw new UsageError(`\`${def.name}\` must be one of ${def.choices.map(c => `\`${c}\``).join(', ')}`)
+    return choice
+  }
+
+  switch (def.type || 'string') {
+    case 'int':
+      if (!/^-?\d+$/.test(token)) throw new UsageError(`\`${def.name}\` must be a whole number`)
+      return parseInt(token)
+
+    case 'number':
+      if (!isFinite(parseFloat(token)) || isNaN(Number(token))) {
+        throw new UsageError(`\`${def.name}\` must be a number`)
+      }
+      return parseFloat(token)
+
+    case 'date':
+      return convertDate(def, token)
+
+    case 'time':
+      return convertTime(def, token)
+
+    case 'user':
+      return convertUser(def, guild, token)
+
+    case 'role':
+      return convertRole(def, guild, token)
+
+    case 'channel':
+      return convertChannel(def, guild, token)
+
+    default:
+      return token
+  }
+}
+
+/**
+ * Converts a `MM/DD` or `YYYY-MM-DD` token into a UTC date
+ * @throws {UsageError}
+ * @param {ArgumentDefinition} def
+ * @param {string} token
+ * @returns {Date}
+ */
+function convertDate(def: ArgumentDefinition, token: string): Date {
+  const short = /^(\d{1,2})\/(\d{1,2})$/.exec(token)
+  const long = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(token)
+
+  let year: number = new Date().getUTCFullYear()
+  let month: number
+  let day: number
+
+  if (short) {
+    month = parseInt(short[1])
+    day = parseInt(short[2])
+  } else if (long) {
+    year = parseInt(long[1])
+    month = parseInt(long[2])
+    day = parseInt(long[3])
+  } else {
+    throw new UsageError(`\`${def.name}\` must be a date formatted as \`MM/DD\``)
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new UsageError(`\`${token}\` is not a valid calendar date`)
+  }
+
+  return date
+}
+
+/**
+ * Converts a `HH:MM` or `HHMM` token into a time of day
+ * @throws {UsageError}
+ * @param {ArgumentDefinition} def
+ * @param {string} token
+ * @returns {TimeOfDay}
+ */
+function convertTime(def: ArgumentDefinition, token: string): TimeOfDay {
+  const match = /^(\d{1,2}):?(\d{2})$/.exec(token)
+  const hours: number = match ? parseInt(match[1]) : NaN
+  const minutes: number = match ? parseInt(match[2]) : NaN
+
+  if (!match || hours > 23 || minutes > 59) {
+    throw new UsageError(`\`${def.name}\` must be a 24-hour time formatted as \`HH:MM\``)
+  }
+
+  return { hours, minutes }
+}
+
+/**
+ * Converts a user mention or ID token into the guild member
+ * @throws {UsageError}
+ * @param {ArgumentDefinition} def
+ * @param {GuildContext} guild
+ * @param {string} token
+ * @returns {MemberContext}
+ */
+function convertUser(def: ArgumentDefinition, guild: GuildContext, token: string): MemberContext {
+  const match = /^<@!?(\d+)>$/.exec(token) || /^(\d+)$/.exec(token)
+  const member: MemberContext | null = match ? guild.member(match[1]) : null
+
+  if (!member) throw new UsageError(`\`${def.name}\` must be a mention of a member of the server`)
+  return member
+}
+
+/**
+ * Converts a role mention or name token into the guild role, with
+ * underscores in the name being treated as spaces
+ * @throws {UsageError}
+ * @param {ArgumentDefinition} def
+ * @param {GuildContext} guild
+ * @param {string} token
+ * @returns {RoleContext}
+ */
+function convertRole(def: ArgumentDefinition, guild: GuildContext, token: string): RoleContext {
+  const match = /^<@&(\d+)>$/.exec(token)
+  const name: string = token.replace(/_/g, ' ')
+  const roles: RoleContext[] = guild.roles()
+  const role: RoleContext | null | undefined = match
+    ? guild.role(match[1])
+    : roles.find(r => r.name === name) || roles.find(r => r.name.toLowerCase() === name.toLowerCase())
+
+  if (!role) throw new UsageError(`the \`${def.name}\` '${name}' does not exist`)
+  return role
+}
+
+/**
+ * Converts a channel mention, ID or name token into the text channel of the guild
+ * @throws {UsageError}
+ * @param {ArgumentDefinition} def
+ * @param {GuildContext} guild
+ * @param {string} token
+ * @returns {ChannelContext}
+ */
+function convertChannel(def: ArgumentDefinition, guild: GuildContext, token: string): ChannelContext {
+  const match = /^<#(\d+)>$/.exec(token) || /^(\d+)$/.exec(token)
+  const name: string = token.replace(/^#/, '').toLowerCase()
+  const channel: ChannelContext | null | undefined = match
+    ? guild.channel(match[1])
+    : guild.channels().find(c => c.name.toLowerCase() === name)
+
+  if (!channel) throw new UsageError(`\`${def.name}\` must be a mention of a text channel in the server`)
+  return channel
+}
@@ -0,0 +1,156 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Env, GuildSettings } from './state'
+import { GuildContext, MemberContext, RoleContext } from './context'
+
+/**
+ * Named permission levels that commands can require, from lowest to highest.
+ * Every member has the `member` level and each higher level includes the ones below it.
+ * @export
+ */
+export type PermissionLevel = 'member' | 'regular' | 'officer' | 'admin'
+
+/**
+ * Permission levels in order from lowest to highest
+ * @export
+ */
+export const PERMISSION_LEVELS: PermissionLevel[] = ['member', 'regular', 'officer', 'admin']
+
+/**
+ * Returns the display name of the permission level
+ * @export
+ * @param {PermissionLevel} level
+ * @returns {string}
+ */
+export function levelName(level: PermissionLevel): string {
+  return `${level[0].toUpperCase()}${level.slice(1)}`
+}
+
+/**
+ * The settings listing the roles that grant each permission level
+ */
+const levelRoles: Record<PermissionLevel, (settings: GuildSettings) => string[]> = {
+  member: () => [],
+  regular: s => s.REGULAR_ROLES,
+  officer: s => s.OFFICER_ROLES,
+  admin: s => s.ADMIN_ROLES
+}
+
+/**
+ * Resolves a configured role, which is a role ID or mention, or a role name as a fallback,
+ * to the role in the guild. Names are matched exactly before ignoring case. Roles are
+ * resolved by ID first so that configured roles keep working after they're renamed.
+ * @export
+ * @param {GuildContext} guild
+ * @param {string} value
+ * @returns {(RoleContext | null)}
+ */
+export function resolveRole(guild: GuildContext, value: string): RoleContext | null {
+  const match = /^<@&(\d+)>$/.exec(value) || /^(\d+)$/.exec(value)
+  const role: RoleContext | null = match ? guild.role(match[1]) : null
+  if (role) return role
+
+  const roles: RoleContext[] = guild.roles()
+  return roles.find(r => r.name === value) || roles.find(r => r.name.toLowerCase() === value.toLowerCase()) || null
+}
+
+/**
+ * Resolves each of the configured roles to the role in the guild, dropping those that don't exist
+ * @export
+ * @param {GuildContext} guild
+ * @param {string[]} values
+ * @returns {RoleContext[]}
+ */
+export function resolveRoles(guild: GuildContext, values: string[]): RoleContext[] {
+  return values.map(v => resolveRole(guild, v)).filter((r): r is RoleContext => r !== null)
+}
+
+/**
+ * Returns whether the member has the configured role
+ * @export
+ * @param {GuildContext} guild
+ * @param {MemberContext} member
+ * @param {string} value
+ * @returns {boolean}
+ */
+export function hasRole(guild: GuildContext, member: MemberContext, value: string): boolean {
+  const role: RoleContext | null = resolveRole(guild, value)
+  return role !== null && member.roles.some(r => r.id === role.id)
+}
+
+/**
+ * Returns the roles of the guild that grant the permission level
+ * @export
+ * @param {GuildContext} guild
+ * @param {PermissionLevel} level
+ * @returns {RoleContext[]}
+ */
+export function rolesForLevel(guild: GuildContext, level: PermissionLevel): RoleContext[] {
+  return resolveRoles(guild, levelRoles[level](Env.guild(guild.id)))
+}
+
+/**
+ * Returns the roles that role provisioning never takes away,
+ * which are the roles in `PROTECTED_ROLES` and the admin roles
+ * @export
+ * @param {GuildContext} guild
+ * @returns {RoleContext[]}
+ */
+export function protectedRoles(guild: GuildContext): RoleContext[] {
+  return [...resolveRoles(guild, Env.guild(guild.id).PROTECTED_ROLES), ...rolesForLevel(guild, 'admin')]
+}
+
+/**
+ * Returns the highest permission level that the roles of the member grant
+ * @export
+ * @param {GuildContext} guild
+ * @param {MemberContext} member
+ * @returns {PermissionLevel}
+ */
+export function levelOf(guild: GuildContext, member: MemberContext): PermissionLevel {
+  const granted: PermissionLevel | undefined = [...PERMISSION_LEVELS]
+    .reverse()
+    .find(l => rolesForLevel(guild, l).some(r => member.roles.some(m => m.id === r.id)))
+  return granted || 'member'
+}
+
+/**
+ * Returns whether the member has the permission level or a higher one
+ * @export
+ * @param {GuildContext} guild
+ * @param {MemberContext} member
+ * @param {PermissionLevel} level
+ * @returns {boolean}
+ */
+export function hasLevel(guild: GuildContext, member: MemberContext, level: PermissionLevel): boolean {
+  return PERMISSION_LEVELS.indexOf(levelOf(guild, member)) >= PERMISSION_LEVELS.indexOf(level)
+}
+
+/**
+ * Returns the roles of the guild that grant the permission level or a higher one
+ * @export
+ * @param {GuildContext} guild
+ * @param {PermissionLevel} level
+ * @returns {RoleContext[]}
+ */
+export function rolesAtLeast(guild: GuildContext, level: PermissionLevel): RoleContext[] {
+  return PERMISSION_LEVELS.slice(PERMISSION_LEVELS.indexOf(level)).reduce(
+    (acc, l) => [...acc, ...rolesForLevel(guild, l).filter(r => !acc.some(a => a.id === r.id))],
+    [] as RoleContext[]
+  )
+}
@@ -0,0 +1,382 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { GuildContext, MemberContext, RoleContext } from './context'
+import { resolveRole, protectedRoles } from './permissions'
+import { Revocations } from './state'
+
+/**
+ * Revoke entry of a role diff that takes every role away from the member
+ * @export
+ */
+export const REVOKE_ALL: string = 'Symbol(all)'
+
+/**
+ * Discord API error code for a request that the bot doesn't have the permissions to make
+ */
+const MISSING_PERMISSIONS: number = 50013
+
+/**
+ * Largest number of members returned in a page of user roles
+ * @export
+ */
+export const MAX_PAGE_SIZE: number = 1000
+
+/**
+ * Type definition for a query of the roles of members. `ids` limits it to those members and
+ * `roles`, which are role IDs or names, to members with every one of the roles. Members are
+ * ordered by ID and a page of at most `pageSize` of them is returned after the `pageToken`
+ * of the previous page, or every member when no page size is given.
+ * @export
+ */
+export type UserRoleQuery = {
+  ids?: string[]
+  roles?: string[]
+  pageSize?: number
+  pageToken?: string
+}
+
+/**
+ * Type definition for the role names of the members matching a query, with the token of
+ * the next page if there are more members and the requested IDs that aren't members
+ * @export
+ */
+export type UserRoleSets = {
+  users: {
+    id: string
+    roles: string[]
+  }[]
+  nextPageToken: string
+  missingIds: string[]
+}
+
+/**
+ * Error thrown when a query of user roles can't be answered, with the
+ * code of the gRPC status that it should be reported to clients as
+ * @export
+ * @class QueryError
+ * @extends Error
+ */
+export class QueryError extends Error {
+  public readonly code: 'NOT_FOUND' | 'INVALID_ARGUMENT'
+
+  constructor(code: 'NOT_FOUND' | 'INVALID_ARGUMENT', message: string) {
+    super(message)
+    this.name = 'QueryError'
+    this.code = code
+    Object.setPrototypeOf(this, QueryError.prototype)
+  }
+}
+
+/**
+ * Type definition for the roles to give a member and take away from them,
+ * which are role IDs or names as a fallback. A `dryRun` diff works out
+ * what would change without touching the roles of the member.
+ * @export
+ */
+export type RoleDiff = {
+  id: string
+  assign?: string[]
+  revoke?: string[]
+  dryRun?: boolean
+}
+
+/**
+ * Type definition for the changes needed to apply a role diff to a member. Roles the
+ * member already has, or doesn't have for revokes, are left out. `unknown` are the
+ * entries of the diff that aren't roles of the guild, `forbidden` are the names of
+ * the roles that the bot isn't able to give or take because of the role hierarchy
+ * or its permissions, and `protected` are the names of the protected roles that the
+ * diff would have taken away. `complete` is whether every change of the diff is planned.
+ * @export
+ */
+export type ProvisionPlan = {
+  add: RoleContext[]
+  remove: RoleContext[]
+  unknown: string[]
+  forbidden: string[]
+  protected: string[]
+  complete: boolean
+}
+
+/**
+ * Type definition for the outcome of applying a role diff to a member. For a dry
+ * run, `assigned` and `revoked` are the roles that would change and `success` is
+ * whether the diff could be fully applied. `deferred` is set when the member is
+ * missing and the diff was queued to be applied when they join.
+ * @export
+ */
+export type ProvisionResult = {
+  id: string
+  dryRun: boolean
+  success: boolean
+  memberMissing: boolean
+  deferred: boolean
+  assigned: string[]
+  revoked: string[]
+  unknownRoles: string[]
+  forbiddenRoles: string[]
+  protectedRoles: string[]
+  error: string
+}
+
+/**
+ * Returns the role names of the members of the guild matching the query
+ * @export
+ * @throws {QueryError}
+ * @param {GuildContext} guild
+ * @param {UserRoleQuery} query
+ * @returns {UserRoleSets}
+ */
+export function queryUserRoles(guild: GuildContext, query: UserRoleQuery): UserRoleSets {
+  const ids: string[] = [...new Set(query.ids || [])]
+  const missingIds: string[] = ids.filter(id => !guild.member(id))
+  if (ids.length > 0 && missingIds.length === ids.length) {
+    throw new QueryError(
+      'NOT_FOUND',
+      `${missingIds.join(', ')} ${ids.length > 1 ? 'are not members' : 'is not a member'} of the server`
+    )
+  }
+
+  const roles: RoleContext[] = (query.roles || []).map(value => {
+    const role: RoleContext | null = resolveRole(guild, value)
+    if (!role) throw new QueryError('NOT_FOUND', `the role '${value}' does not exist`)
+    return role
+  })
+
+  const after: string | null = query.pageToken ? decodePageToken(query.pageToken) : null
+  const members: MemberContext[] = (ids.length > 0 ? ids.map(id => guild.member(id)!).filter(m => m) : guild.members())
+    .filter(m => roles.every(role => m.roles.some(r => r.id === role.id)))
+    .filter(m => after === null || compareIds(m.id, after) > 0)
+    .sort((a, b) => compareIds(a.id, b.id))
+
+  const size: number = query.pageSize ? Math.min(query.pageSize, MAX_PAGE_SIZE) : members.length
+  const page: MemberContext[] = members.slice(0, size)
+
+  return {
+    users: page.map(m => ({ id: m.id, roles: m.roles.map(r => r.name) })),
+    nextPageToken: members.length > page.length ? encodePageToken(page[page.length - 1].id) : '',
+    missingIds
+  }
+}
+
+/**
+ * Works out the roles to give the member and take away from them to apply the diff
+ * against the roles they currently have. A role that is both assigned and revoked is
+ * revoked. Protected roles are never taken away. Revoking every role leaves them and
+ * the managed roles in place, while revoking a protected role by name keeps the diff
+ * from being complete.
+ * @export
+ * @param {GuildContext} guild
+ * @param {MemberContext} member
+ * @param {RoleDiff} diff
+ * @returns {ProvisionPlan}
+ */
+export function planProvision(guild: GuildContext, member: MemberContext, diff: RoleDiff): ProvisionPlan {
+  const plan: ProvisionPlan = { add: [], remove: [], unknown: [], forbidden: [], protected: [], complete: false }
+  const has = (role: RoleContext): boolean => member.roles.some(r => r.id === role.id)
+  const guarded: RoleContext[] = protectedRoles(guild)
+  const revokeAll: boolean = isRevokeAll(diff.revoke)
+
+  // Every guild member has the @everyone role, which shares the ID of the guild and can't be taken away
+  const revoke: RoleContext[] | null = revokeAll ? member.roles.filter(r => r.id !== guild.id && !r.managed) : null
+  const resolve = (values: string[] = []): RoleContext[] =>
+    values.reduce((acc, v) => {
+      const role: RoleContext | null = resolveRole(guild, v)
+      if (!role) plan.unknown.push(v)
+      return role && !acc.some(r => r.id === role.id) ? [...acc, role] : acc
+    }, [] as RoleContext[])
+
+  const removing: RoleContext[] = (revoke || resolve(diff.revoke)).filter(has)
+  const adding: RoleContext[] = resolve(diff.assign).filter(r => !has(r) && !removing.some(x => x.id === r.id))
+
+  for (const role of adding) role.editable ? plan.add.push(role) : plan.forbidden.push(role.name)
+  for (const role of removing) {
+    if (guarded.some(r => r.id === role.id)) plan.protected.push(role.name)
+    else if (role.editable) plan.remove.push(role)
+    else plan.forbidden.push(role.name)
+  }
+
+  plan.complete = plan.unknown.length === 0 && plan.forbidden.length === 0 && (revokeAll || plan.protected.length === 0)
+  return plan
+}
+
+/**
+ * Applies the diff to the member of the guild with its ID, giving and taking
+ * away the roles of its plan that the bot is able to in at most two requests,
+ * or only reporting the roles that would change for a dry run. The roles taken
+ * away by revoking every role are recorded so that they can be restored.
+ * @export
+ * @async
+ * @param {GuildContext} guild
+ * @param {RoleDiff} diff
+ * @param {string} reason
+ * @returns {Promise<ProvisionResult>}
+ */
+export async function applyProvision(guild: GuildContext, diff: RoleDiff, reason: string): Promise<ProvisionResult> {
+  const result: ProvisionResult = failedProvision(diff, '')
+
+  const member: MemberContext | null = guild.member(diff.id)
+  if (!member) {
+    result.memberMissing = true
+    result.error = 'not a member of the server'
+    return result
+  }
+
+  const plan: ProvisionPlan = planProvision(guild, member, diff)
+  result.unknownRoles = plan.unknown
+  result.forbiddenRoles = plan.forbidden
+  result.protectedRoles = plan.protected
+
+  if (result.dryRun) {
+    result.assigned = plan.add.map(r => r.name)
+    result.revoked = plan.remove.map(r => r.name)
+    result.success = plan.complete
+    return result
+  }
+
+  try {
+    if (plan.add.length > 0) {
+      await member.addRoles(plan.add, reason)
+      result.assigned = plan.add.map(r => r.name)
+    }
+
+    if (plan.remove.length > 0) {
+      await member.removeRoles(plan.remove, reason)
+      result.revoked = plan.remove.map(r => r.name)
+      if (isRevokeAll(diff.revoke)) Revocations.record(guild.id, member.id, plan.remove)
+    }
+  } catch (e) {
+    result.error = e.message
+    // Discord rejects the whole request when the bot is missing the permissions for any of its roles
+    if (e.code === MISSING_PERMISSIONS) result.forbiddenRoles.push(...[...plan.add, ...plan.remove].map(r => r.name))
+  }
+
+  result.success = result.error === '' && plan.complete
+  return result
+}
+
+/**
+ * Returns the result of a role diff that failed before any of its roles were changed
+ * @export
+ * @param {RoleDiff} diff
+ * @param {string} error
+ * @returns {ProvisionResult}
+ */
+export function failedProvision(diff: RoleDiff, error: string): ProvisionResult {
+  return {
+    id: diff.id,
+    dryRun: diff.dryRun === true,
+    success: false,
+    memberMissing: false,
+    deferred: false,
+    assigned: [],
+    revoked: [],
+    unknownRoles: [],
+    forbiddenRoles: [],
+    protectedRoles: [],
+    error
+  }
+}
+
+/**
+ * Checks that a role diff is for a valid user ID, as a diff for any other ID could never
+ * be applied and would otherwise be deferred for a user that can never join
+ * @export
+ * @throws {QueryError}
+ * @param {RoleDiff} diff
+ */
+export function validateDiff(diff: RoleDiff) {
+  if (!diff.id || !/^\d+$/.test(diff.id)) {
+    throw new QueryError('INVALID_ARGUMENT', `'${diff.id || ''}' is not a valid user ID`)
+  }
+}
+
+/**
+ * Returns the result of applying a role diff as the label it is counted by in the metrics
+ * @export
+ * @param {ProvisionResult} result
+ * @returns {('dry_run' | 'deferred' | 'success' | 'failure')}
+ */
+export function provisionOutcome(result: ProvisionResult): 'dry_run' | 'deferred' | 'success' | 'failure' {
+  if (result.dryRun) return 'dry_run'
+  if (result.deferred) return 'deferred'
+  return result.success ? 'success' : 'failure'
+}
+
+/**
+ * Describes the outcome of applying a role diff for the logs
+ * @export
+ * @param {ProvisionResult} result
+ * @returns {string}
+ */
+export function provisionSummary(result: ProvisionResult): string {
+  if (result.memberMissing) return result.deferred ? `${result.error}, deferred until they join` : result.error
+
+  const [assigned, revoked] = result.dryRun ? ['would assign', 'would revoke'] : ['assigned', 'revoked']
+  const parts: string[] = [
+    ...(result.assigned.length > 0 ? [`${assigned} ${result.assigned.join(', ')}`] : []),
+    ...(result.revoked.length > 0 ? [`${revoked} ${result.revoked.join(', ')}`] : []),
+    ...(result.unknownRoles.length > 0 ? [`unknown roles ${result.unknownRoles.join(', ')}`] : []),
+    ...(result.forbiddenRoles.length > 0 ? [`not permitted to change ${result.forbiddenRoles.join(', ')}`] : []),
+    ...(result.protectedRoles.length > 0 ? [`kept protected ${result.protectedRoles.join(', ')}`] : []),
+    ...(result.error ? [result.error] : [])
+  ]
+  return parts.join('; ') || 'no changes'
+}
+
+/**
+ * Orders two Discord IDs by when they were created, comparing their
+ * lengths first as the IDs are numbers too large to compare exactly
+ * @param {string} a
+ * @param {string} b
+ * @returns {number}
+ */
+function compareIds(a: string, b: string): number {
+  return a.length !== b.length ? a.length - b.length : a < b ? -1 : a > b ? 1 : 0
+}
+
+/**
+ * Encodes the ID of the last member of a page as the opaque token of the next page
+ * @param {string} id
+ * @returns {string}
+ */
+function encodePageToken(id: string): string {
+  return Buffer.from(id).toString('base64')
+}
+
+/**
+ * Decodes the ID of the member that a page starts after from its token
+ * @throws {QueryError}
+ * @param {string} token
+ * @returns {string}
+ */
+function decodePageToken(token: string): string {
+  const id: string = Buffer.from(token, 'base64').toString()
+  if (!/^\d+$/.test(id)) throw new QueryError('INVALID_ARGUMENT', 'the page token is invalid')
+  return id
+}
+
+/**
+ * Returns whether the revokes of a diff take away every role of the member
+ * @export
+ * @param {string[]} [revoke]
+ * @returns {boolean}
+ */
+export function isRevokeAll(revoke?: string[]): boolean {
+  return revoke !== undefined && revoke.length === 1 && revoke[0] === REVOKE_ALL
+}
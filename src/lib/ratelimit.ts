@@ -0,0 +1,159 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Env } from './state'
+import { CommandDefinition } from './parser'
+
+/**
+ * Type definition for the result of a throttled command request
+ * @export
+ */
+export type Throttle = {
+  reason: 'cooldown' | 'rate'
+  retryAfter: number
+  notify: boolean
+}
+
+/**
+ * Type definition for the per user token bucket state
+ */
+type Bucket = {
+  tokens: number
+  updated: number
+}
+
+/**
+ * Returns the cooldown in seconds for the command, preferring
+ * an override in `COMMAND_COOLDOWNS` over the command definition
+ * @export
+ * @param {CommandDefinition} def
+ * @returns {number}
+ */
+export function cooldownFor(def: CommandDefinition): number {
+  const override: number | undefined = Env.COMMAND_COOLDOWNS[def.name]
+  return override !== undefined ? override : def.cooldown || 0
+}
+
+/**
+ * Tracks command usage to enforce per command cooldowns for each user
+ * and a global token bucket for each user across all commands
+ * @export
+ * @class RateLimiter
+ * @property {number} _capacity
+ * @property {number} _refillMs
+ * @property {Map<string, Bucket>} _buckets
+ * @property {Map<string, number>} _cooldowns
+ * @property {Map<string, number>} _notified
+ */
+export class RateLimiter {
+  // Number of tracked entries that triggers the removal of stale ones
+  private static readonly PRUNE_SIZE: number = 1000
+
+  private _capacity: number
+  private _refillMs: number
+  private _buckets: Map<string, Bucket> = new Map()
+  private _cooldowns: Map<string, number> = new Map()
+  private _notified: Map<string, number> = new Map()
+
+  /**
+   * Creates an instance of RateLimiter
+   * @param {number} capacity
+   * @param {number} refillSeconds
+   * @memberof RateLimiter
+   */
+  constructor(capacity: number, refillSeconds: number) {
+    this._capacity = capacity
+    this._refillMs = refillSeconds * 1000
+  }
+
+  /**
+   * Records a request for the command by the user and returns the throttle
+   * details if it should be rejected or null if it is allowed to run.
+   * Only the first rejection in a throttled window is marked to notify the user.
+   * @param {string} user
+   * @param {string} command
+   * @param {number} cooldown
+   * @param {number} [now=Date.now()]
+   * @returns {Throttle | null}
+   * @memberof RateLimiter
+   */
+  check(user: string, command: string, cooldown: number, now: number = Date.now()): Throttle | null {
+    if (this._cooldowns.size + this._buckets.size > RateLimiter.PRUNE_SIZE) this._prune(now)
+
+    // Check the command specific cooldown before spending a token
+    const key: string = `${user}:${command}`
+    const cooldownUntil: number | undefined = this._cooldowns.get(key)
+    if (cooldownUntil !== undefined && now < cooldownUntil) {
+      return this._throttle(user, 'cooldown', cooldownUntil - now, now)
+    }
+
+    // Refill the user's bucket for the time elapsed and try to take a token
+    const bucket: Bucket = this._buckets.get(user) || { tokens: this._capacity, updated: now }
+    bucket.tokens = Math.min(this._capacity, bucket.tokens + (now - bucket.updated) / this._refillMs)
+    bucket.updated = now
+    this._buckets.set(user, bucket)
+
+    if (bucket.tokens < 1) {
+      return this._throttle(user, 'rate', (1 - bucket.tokens) * this._refillMs, now)
+    }
+
+    bucket.tokens--
+    if (cooldown > 0) this._cooldowns.set(key, now + cooldown * 1000)
+    this._notified.delete(user)
+    return null
+  }
+
+  /**
+   * Creates the throttle result and marks whether the user still needs to be notified
+   * @private
+   * @param {string} user
+   * @param {('cooldown' | 'rate')} reason
+   * @param {number} waitMs
+   * @param {number} now
+   * @returns {Throttle}
+   * @memberof RateLimiter
+   */
+  private _throttle(user: string, reason: 'cooldown' | 'rate', waitMs: number, now: number): Throttle {
+    const notifiedUntil: number | undefined = this._notified.get(user)
+    const notify: boolean = notifiedUntil === undefined || now >= notifiedUntil
+    if (notify) this._notified.set(user, now + waitMs)
+
+    return { reason, retryAfter: Math.ceil(waitMs / 1000), notify }
+  }
+
+  /**
+   * Removes the tracked entries that no longer affect any request
+   * @private
+   * @param {number} now
+   * @memberof RateLimiter
+   */
+  private _prune(now: number) {
+    const fullAfter: number = this._capacity * this._refillMs
+
+    for (const [key, until] of this._cooldowns) {
+      if (now >= until) this._cooldowns.delete(key)
+    }
+
+    for (const [user, bucket] of this._buckets) {
+      if (now - bucket.updated > fullAfter) this._buckets.delete(user)
+    }
+
+    for (const [user, until] of this._notified) {
+      if (now >= until) this._notified.delete(user)
+    }
+  }
+}
@@ -15,6 +15,22 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
+import * as log from './logger'
+
+/**
+ * Type definition for how a routine has been running, for the health checks.
+ * `interval` is in milliseconds, `lastRun` is when it last ran and `lastError`
+ * is the error of its last run if that run failed.
+ * @export
+ */
+export type RoutineStatus = {
+  interval: number
+  runs: number
+  failures: number
+  lastRun: string | null
+  lastError: string | null
+}
+
 /**
  * Implementable interface for classes using the Routine class
  * @export
@@ -29,10 +45,20 @@ export interface Routinable {
  * @export
  * @class Routine
  * @property {NodeJS.Timer} _interval
+ * @property {number} _time
+ * @property {number} _runs
+ * @property {number} _failures
+ * @property {Date?} _lastRun
+ * @property {string?} _lastError
  */
 export class Routine<T> {
   // Routine instance variables
   private _interval: NodeJS.Timer
+  private _time: number
+  private _runs: number = 0
+  private _failures: number = 0
+  private _lastRun: Date | null = null
+  private _lastError: string | null = null
 
   /**
    * Creates an instance of Routine.
@@ -42,7 +68,23 @@ export class Routine<T> {
    * @memberof Routine
    */
   constructor(fn: (...args: T[]) => void | Promise<void>, args: T[], time: number) {
-    this._interval = setInterval(() => fn(...args), time)
+    this._time = time
+    this._interval = setInterval(() => this._run(fn, args), time)
+  }
+
+  /**
+   * Returns how the routine has been running
+   * @returns {RoutineStatus}
+   * @memberof Routine
+   */
+  status(): RoutineStatus {
+    return {
+      interval: this._time,
+      runs: this._runs,
+      failures: this._failures,
+      lastRun: this._lastRun ? this._lastRun.toISOString() : null,
+      lastError: this._lastError
+    }
   }
 
   /**
@@ -52,4 +94,26 @@ export class Routine<T> {
   terminate() {
     clearInterval(this._interval)
   }
+
+  /**
+   * Runs the routine's function once, recording whether it failed
+   * @private
+   * @async
+   * @param {((...args: T[]) => void | Promise<void>)} fn
+   * @param {T[]} args
+   * @memberof Routine
+   */
+  private async _run(fn: (...args: T[]) => void | Promise<void>, args: T[]) {
+    this._lastRun = new Date()
+    this._runs++
+
+    try {
+      await fn(...args)
+      this._lastError = null
+    } catch (e) {
+      this._failures++
+      this._lastError = e.message
+      log.error(`ROUTINE: ${e.message}`)
+    }
+  }
 }
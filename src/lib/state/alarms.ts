@@ -15,60 +15,127 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { User } from 'discord.js'
+import { moduleLogger } from '../logger'
+import Storage from './storage'
+
+const log = moduleLogger('state')
+
+/**
+ * Shape of the alarms when written to the storage backend, keyed by
+ * guild ID with the user ID and player count entries of each guild
+ */
+type StoredAlarms = Record<string, [string, number][]>
 
 /**
- * State store to manage player count alarms for the primary server
+ * State store to manage player count alarms for the primary server,
+ * isolated per guild by keying the registered users by guild ID
  * @export
  * @class AlarmStore
- * @property {Map<Discord.User, number>} _alarms
+ * @property {Map<string, Map<string, number>>} _alarms
+ * @property {boolean} _loaded
  */
 class AlarmStore {
-  private _alarms: Map<User, number> = new Map()
+  private _alarms: Map<string, Map<string, number>> = new Map()
+  private _loaded: boolean = false
+
+  /**
+   * Rehydrates the registered alarms from the storage backend
+   * @async
+   * @memberof AlarmStore
+   */
+  async load() {
+    if (this._loaded) return
+    this._loaded = true
+
+    const stored: StoredAlarms | undefined = await Storage.read<StoredAlarms>('alarms')
+    if (!stored) return
+
+    for (const guild of Object.keys(stored)) {
+      this._alarms.set(guild, new Map(stored[guild]))
+    }
+
+    log.sys(`Restored ${this.numberOfAlarms()} alarms`)
+  }
 
   /**
-   * Finds and returns all User instances that are registered
+   * Finds and returns the IDs of all users in the guild that are registered
    * for an alarm for a player count equal to or less than 'x'
+   * @param {string} guild
    * @param {number} x
-   * @returns {User[]}
+   * @returns {string[]}
    * @memberof AlarmStore
    */
-  filter(x: number): User[] {
-    return [...this._alarms.entries()].filter(e => e[1] <= x).map(e => e[0])
+  filter(guild: string, x: number): string[] {
+    return [...this._guild(guild).entries()].filter(e => e[1] <= x).map(e => e[0])
   }
 
   /**
-   * Register a new user for a player count alarm.
+   * Register a new user in the guild for a player count alarm.
    * Returns false if there was no alarm already registered for the user
    * and true if there was an alarm and it was overridden.
+   * @param {string} guild
    * @param {number} count
-   * @param {User} user
+   * @param {string} id
    * @returns {boolean}
    * @memberof AlarmStore
    */
-  register(count: number, user: User): boolean {
-    const existed = this._alarms.has(user)
-    this._alarms.set(user, count)
+  register(guild: string, count: number, id: string): boolean {
+    const alarms: Map<string, number> = this._guild(guild)
+    const existed = alarms.has(id)
+    alarms.set(id, count)
+    this._alarms.set(guild, alarms)
+    this._save()
     return existed
   }
 
   /**
-   * Deregistered the user in the store for mission count alarms
-   * @param {User} user
+   * Deregistered the user in the guild for mission count alarms
+   * @param {string} guild
+   * @param {string} id
    * @returns {boolean}
    * @memberof AlarmStore
    */
-  remove(user: User): boolean {
-    return this._alarms.delete(user)
+  remove(guild: string, id: string): boolean {
+    const removed = this._guild(guild).delete(id)
+    if (removed) this._save()
+    return removed
   }
 
   /**
-   * Returns the number of alarms registered with the store
+   * Returns the number of alarms registered in the guild,
+   * or across every guild if one is not argued
+   * @param {string} [guild]
    * @returns {number}
    * @memberof AlarmStore
    */
-  numberOfAlarms(): number {
-    return this._alarms.size
+  numberOfAlarms(guild?: string): number {
+    if (guild) return this._guild(guild).size
+    return [...this._alarms.values()].reduce((acc, a) => acc + a.size, 0)
+  }
+
+  /**
+   * Returns the registered alarms of the guild
+   * @private
+   * @param {string} guild
+   * @returns {Map<string, number>}
+   * @memberof AlarmStore
+   */
+  private _guild(guild: string): Map<string, number> {
+    return this._alarms.get(guild) || new Map()
+  }
+
+  /**
+   * Writes the registered alarms of every guild to the storage backend
+   * @private
+   * @memberof AlarmStore
+   */
+  private _save() {
+    const stored: StoredAlarms = {}
+    for (const [guild, alarms] of this._alarms) {
+      stored[guild] = [...alarms.entries()]
+    }
+
+    Storage.write('alarms', stored).catch(e => log.error(`ALARMS_SAVE: ${e.message}`))
   }
 }
 
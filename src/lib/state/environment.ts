@@ -16,24 +16,94 @@
  */
 
 /**
- * Static class to hold enviornment variables for easy access
+ * Value types of the settings that can be changed at runtime
+ * @export
+ */
+export type SettingType = 'channel' | 'role' | 'roles' | 'int' | 'prefix'
+
+/**
+ * Type definition for a setting that can be overridden by the `!config` command
+ * @export
+ * @interface SettingDefinition
+ */
+export interface SettingDefinition {
+  env: string
+  type: SettingType
+  description: string
+  default?: string
+}
+
+/**
+ * Names of the settings that can be changed at runtime
+ * @export
+ */
+export type SettingKey =
+  | 'LOG_CHANNEL'
+  | 'MAIN_CHANNEL'
+  | 'LFG_CHANNEL'
+  | 'REGULARS_CHANNEL'
+  | 'ARMA_CHANNEL'
+  | 'BMS_CHANNEL'
+  | 'FLIGHTS_CHANNEL'
+  | 'ARMA_PLAYER_ROLE'
+  | 'BMS_PLAYER_ROLE'
+  | 'ALLOWED_GROUPS'
+  | 'ADMIN_ROLES'
+  | 'OFFICER_ROLES'
+  | 'REGULAR_ROLES'
+  | 'PROTECTED_ROLES'
+  | 'NUM_PLAYERS_FOR_ALERT'
+  | 'PREFIX'
+
+/**
+ * Settings that are read from the environment and can be changed at runtime
+ * @export
+ */
+export const SETTINGS: Record<SettingKey, SettingDefinition> = {
+  LOG_CHANNEL: { env: 'DISCORD_LOG_CHANNEL', type: 'channel', description: 'channel for bot audit logs' },
+  MAIN_CHANNEL: { env: 'DISCORD_MAIN_CHANNEL', type: 'channel', description: 'main channel in the server' },
+  LFG_CHANNEL: { env: 'DISCORD_LFG_CHANNEL', type: 'channel', description: 'channel for looking for group posts' },
+  REGULARS_CHANNEL: { env: 'DISCORD_REGULARS_CHANNEL', type: 'channel', description: 'channel for Regulars' },
+  ARMA_CHANNEL: { env: 'DISCORD_ARMA_CHANNEL', type: 'channel', description: 'channel for ArmA 3' },
+  BMS_CHANNEL: { env: 'DISCORD_BMS_CHANNEL', type: 'channel', description: 'channel for BMS' },
+  FLIGHTS_CHANNEL: { env: 'DISCORD_FLIGHTS_CHANNEL', type: 'channel', description: 'channel for UOAF pickup flights' },
+  ARMA_PLAYER_ROLE: { env: 'DISCORD_ARMA_PLAYER_ROLE', type: 'role', description: 'role for ArmA 3 players' },
+  BMS_PLAYER_ROLE: { env: 'DISCORD_BMS_PLAYER_ROLE', type: 'role', description: 'role for BMS players' },
+  ALLOWED_GROUPS: {
+    env: 'DISCORD_ALLOWED_GROUPS',
+    type: 'roles',
+    description: 'roles members can join with the `role` command'
+  },
+  ADMIN_ROLES: { env: 'ADMIN_ROLES', type: 'roles', description: 'roles permitted to run admin commands' },
+  OFFICER_ROLES: { env: 'OFFICER_ROLES', type: 'roles', description: 'roles permitted to run officer commands' },
+  REGULAR_ROLES: {
+    env: 'REGULAR_ROLES',
+    type: 'roles',
+    description: 'roles permitted to run regular commands',
+    default: 'Regulars'
+  },
+  PROTECTED_ROLES: {
+    env: 'PROTECTED_ROLES',
+    type: 'roles',
+    description: 'roles that role provisioning never revokes, along with the admin roles'
+  },
+  NUM_PLAYERS_FOR_ALERT: { env: 'NUM_PLAYERS_FOR_ALERT', type: 'int', description: 'player count for server alerts' },
+  PREFIX: { env: 'COMMAND_PREFIX', type: 'prefix', description: 'prefix that commands are invoked with', default: '!' }
+}
+
+/**
+ * Static class to hold enviornment variables for easy access. The
+ * settings in `SETTINGS` are configured per guild through `guild()` and
+ * are read each time they are accessed so that overrides applied at
+ * runtime take effect immediately. The first ID in `DISCORD_SERVER_ID`
+ * is the primary guild. Values are not validated here, see
+ * `validateEnvironment` which is run at startup.
  * @export
  * @class EnvStore
  *
  * @readonly @property {string} BOT_TOKEN
+ * @readonly @property {string[]} GUILD_IDS
  * @readonly @property {string} GUILD_ID
- * @readonly @property {string} LOG_CHANNEL
- * @readonly @property {string} LFG_CHANNEL
- * @readonly @property {string} REGULARS_CHANNEL
- * @readonly @property {string} ARMA_CHANNEL
- * @readonly @property {string} BMS_CHANNEL
- * @readonly @property {string} MAIN_CHANNEL
- * @readonly @property {string} FLIGHTS_CHANNEL
- * @readonly @property {string} ARMA_PLAYER_ROLE
- * @readonly @property {string} BMS_PLAYER_ROLE
- * @readonly @property {number} NUM_PLAYERS_FOR_ALERT
- * @readonly @property {string[]} ALLOWED_GROUPS
- * @readonly @property {string[]} ADMIN_ROLES
  * @readonly @property {string[]} ALERT_TIMES
  * @readonly @property {number} HOURS_TO_REFRESH_FROM_FORUMS
  * @readonly @property {string} FORUMS_API_BASE
@@ -42,25 +112,39 @@
  * @readonly @property {string} AUTH_API_KEY
  * @readonly @property {string} PUSHER_CLUSTER
  * @readonly @property {string} PUSHER_KEY
+ * @readonly @property {string} GRPC_HOST
+ * @readonly @property {number} GRPC_PORT
+ * @readonly @property {string} GRPC_TLS_CERT
+ * @readonly @property {string} GRPC_TLS_KEY
+ * @readonly @property {string} GRPC_TLS_CA
+ * @readonly @property {Record<string, string>} GRPC_API_KEYS
+ * @readonly @property {boolean} GRPC_ALLOW_UNAUTHENTICATED
+ * @readonly @property {number} PENDING_PROVISION_DAYS
+ * @readonly @property {string} HTTP_HOST
+ * @readonly @property {number} HTTP_PORT
+ * @readonly @property {string} API_HOST
+ * @readonly @property {number} API_PORT
+ * @readonly @property {string} STORAGE_BACKEND
+ * @readonly @property {string} STORAGE_PATH
+ * @readonly @property {number} RATE_LIMIT_BURST
+ * @readonly @property {number} RATE_LIMIT_REFILL_SECONDS
+ * @readonly @property {Record<string, number>} COMMAND_COOLDOWNS
+ * @readonly @property {string} LOG_LEVEL
+ * @readonly @property {Record<string, string>} LOG_LEVELS
+ * @readonly @property {string} LOG_FORMAT
+ * @readonly @property {string} LOG_FILE
+ * @readonly @property {number} LOG_FILE_MAX_BYTES
+ * @readonly @property {number} LOG_FILE_COUNT
  * @readonly @property {string} forumsAPIAuthToken
+ * @private @property {Map<string, Map<SettingKey, string>>} _overrides
+ * @private @property {Map<string, GuildSettings>} _guilds
  */
 class EnvStore {
   // Static and readonly variables for the Bot class
   public readonly BOT_TOKEN: string = process.env.BOT_TOKEN!
-  public readonly GUILD_ID: string = process.env.DISCORD_SERVER_ID!
-  public readonly LOG_CHANNEL: string = process.env.DISCORD_LOG_CHANNEL!
-  public readonly LFG_CHANNEL: string = process.env.DISCORD_LFG_CHANNEL!
-  public readonly REGULARS_CHANNEL: string = process.env.DISCORD_REGULARS_CHANNEL!
-  public readonly ARMA_CHANNEL: string = process.env.DISCORD_ARMA_CHANNEL!
-  public readonly BMS_CHANNEL: string = process.env.DISCORD_BMS_CHANNEL!
-  public readonly MAIN_CHANNEL: string = process.env.DISCORD_MAIN_CHANNEL!
-  public readonly FLIGHTS_CHANNEL: string = process.env.DISCORD_FLIGHTS_CHANNEL!
-  public readonly ARMA_PLAYER_ROLE: string = process.env.DISCORD_ARMA_PLAYER_ROLE!
-  public readonly BMS_PLAYER_ROLE: string = process.env.DISCORD_BMS_PLAYER_ROLE!
-  public readonly NUM_PLAYERS_FOR_ALERT: number = parseInt(process.env.NUM_PLAYERS_FOR_ALERT!)
-  public readonly ALLOWED_GROUPS: string[] = process.env.DISCORD_ALLOWED_GROUPS!.split(',')
-  public readonly ADMIN_ROLES: string[] = process.env.ADMIN_ROLES!.split(',')
-  public readonly ALERT_TIMES: string[] = process.env.ALERT_TIMES!.split(',').map(t => t.trim())
+  public readonly GUILD_IDS: string[] = splitList(process.env.DISCORD_SERVER_ID || '')
+  public readonly GUILD_ID: string = this.GUILD_IDS[0]
+  public readonly ALERT_TIMES: string[] = splitList(process.env.ALERT_TIMES || '')
   public readonly HOURS_TO_REFRESH_FROM_FORUMS: number = parseInt(process.env.HOURS_TO_REFRESH_FROM_FORUMS!)
   public readonly FORUMS_API_BASE: string = process.env.FORUMS_API_BASE!
   public readonly FORUMS_API_KEY: string = process.env.FORUMS_API_KEY!
@@ -68,10 +152,255 @@ class EnvStore {
   public readonly AUTH_API_KEY: string = process.env.AUTH_API_KEY!
   public readonly PUSHER_CLUSTER: string = process.env.PUSHER_CLUSTER!
   public readonly PUSHER_KEY: string = process.env.PUSHER_KEY!
+  public readonly GRPC_HOST: string = process.env.GRPC_HOST || '0.0.0.0'
+  public readonly GRPC_PORT: number = parseInt(process.env.GRPC_PORT!)
+  public readonly GRPC_TLS_CERT: string = process.env.GRPC_TLS_CERT || ''
+  public readonly GRPC_TLS_KEY: string = process.env.GRPC_TLS_KEY || ''
+  public readonly GRPC_TLS_CA: string = process.env.GRPC_TLS_CA || ''
+  public readonly GRPC_API_KEYS: Record<string, string> = (process.env.GRPC_API_KEYS || '')
+    .split(',')
+    .filter(k => k.includes(':'))
+    .reduce((acc, k) => {
+      const [client, ...key] = k.split(':').map(x => x.trim())
+      return { ...acc, [client]: key.join(':') }
+    }, {} as Record<string, string>)
+  public readonly GRPC_ALLOW_UNAUTHENTICATED: boolean = process.env.GRPC_ALLOW_UNAUTHENTICATED === 'true'
+  public readonly PENDING_PROVISION_DAYS: number = parseFloat(process.env.PENDING_PROVISION_DAYS || '30')
+  public readonly HTTP_HOST: string = process.env.HTTP_HOST || '0.0.0.0'
+  public readonly HTTP_PORT: number = parseInt(process.env.HTTP_PORT || '8080')
+  public readonly API_HOST: string = process.env.API_HOST || '127.0.0.1'
+  public readonly API_PORT: number = parseInt(process.env.API_PORT || '8081')
+  public readonly STORAGE_BACKEND: string = process.env.STORAGE_BACKEND || 'json'
+  public readonly STORAGE_PATH: string = process.env.STORAGE_PATH || './data'
+  public readonly RATE_LIMIT_BURST: number = parseInt(process.env.RATE_LIMIT_BURST || '5')
+  public readonly RATE_LIMIT_REFILL_SECONDS: number = parseFloat(process.env.RATE_LIMIT_REFILL_SECONDS || '3')
+  public readonly COMMAND_COOLDOWNS: Record<string, number> = (process.env.COMMAND_COOLDOWNS || '')
+    .split(',')
+    .filter(c => c.includes(':'))
+    .reduce((acc, c) => {
+      const [name, seconds] = c.split(':').map(x => x.trim())
+      return { ...acc, [name]: parseFloat(seconds) }
+    }, {} as Record<string, number>)
+  public readonly LOG_LEVEL: string = process.env.LOG_LEVEL || 'info'
+  public readonly LOG_LEVELS: Record<string, string> = (process.env.LOG_LEVELS || '')
+    .split(',')
+    .filter(l => l.includes(':'))
+    .reduce((acc, l) => {
+      const [module, level] = l.split(':').map(x => x.trim())
+      return { ...acc, [module]: level }
+    }, {} as Record<string, string>)
+  public readonly LOG_FORMAT: string = process.env.LOG_FORMAT || 'json'
+  public readonly LOG_FILE: string = process.env.LOG_FILE || ''
+  public readonly LOG_FILE_MAX_BYTES: number = parseInt(process.env.LOG_FILE_MAX_BYTES || '10485760')
+  public readonly LOG_FILE_COUNT: number = parseInt(process.env.LOG_FILE_COUNT || '5')
+
+  // Runtime overrides of the settings applied by the `!config` command for each guild
+  private _overrides: Map<string, Map<SettingKey, string>> = new Map()
+  private _guilds: Map<string, GuildSettings> = new Map()
 
   get forumsAPIAuthToken(): string {
     return `Basic ${Buffer.from(`${this.FORUMS_API_KEY}:`).toString('base64')}`
   }
+
+  /**
+   * Returns the settings of the guild, defaulting to the primary guild
+   * @param {string} [id=this.GUILD_ID]
+   * @returns {GuildSettings}
+   * @memberof EnvStore
+   */
+  guild(id: string = this.GUILD_ID): GuildSettings {
+    if (!this._guilds.has(id)) this._guilds.set(id, new GuildSettings(this, id))
+    return this._guilds.get(id)!
+  }
+
+  /**
+   * Returns the unparsed value of the setting for the guild, preferring a runtime
+   * override. Channel IDs are specific to a server so the environment values of
+   * the channel settings only apply to the primary guild.
+   * @param {string} guild
+   * @param {SettingKey} key
+   * @returns {string}
+   * @memberof EnvStore
+   */
+  raw(guild: string, key: SettingKey): string {
+    const override: string | undefined = (this._overrides.get(guild) || new Map()).get(key)
+    return override !== undefined ? override : this.environmentValue(guild, key)
+  }
+
+  /**
+   * Returns the unparsed value that the setting has in the guild without a runtime override
+   * @param {string} guild
+   * @param {SettingKey} key
+   * @returns {string}
+   * @memberof EnvStore
+   */
+  environmentValue(guild: string, key: SettingKey): string {
+    if (SETTINGS[key].type === 'channel' && guild !== this.GUILD_ID) return ''
+    return process.env[SETTINGS[key].env] || SETTINGS[key].default || ''
+  }
+
+  /**
+   * Returns whether the setting currently has a runtime override in the guild
+   * @param {string} guild
+   * @param {SettingKey} key
+   * @returns {boolean}
+   * @memberof EnvStore
+   */
+  isOverridden(guild: string, key: SettingKey): boolean {
+    return (this._overrides.get(guild) || new Map()).has(key)
+  }
+
+  /**
+   * Applies a runtime override to the setting in the guild
+   * @param {string} guild
+   * @param {SettingKey} key
+   * @param {string} value
+   * @memberof EnvStore
+   */
+  override(guild: string, key: SettingKey, value: string) {
+    if (!this._overrides.has(guild)) this._overrides.set(guild, new Map())
+    this._overrides.get(guild)!.set(key, value)
+  }
+
+  /**
+   * Removes the runtime override of the setting in the guild to use the environment value
+   * @param {string} guild
+   * @param {SettingKey} key
+   * @returns {boolean}
+   * @memberof EnvStore
+   */
+  reset(guild: string, key: SettingKey): boolean {
+    return (this._overrides.get(guild) || new Map()).delete(key)
+  }
+
+  /**
+   * Returns all of the runtime overrides grouped by guild ID
+   * @returns {Record<string, Record<string, string>>}
+   * @memberof EnvStore
+   */
+  overrides(): Record<string, Record<string, string>> {
+    const all: Record<string, Record<string, string>> = {}
+    for (const [guild, settings] of this._overrides) {
+      if (settings.size > 0) all[guild] = [...settings.entries()].reduce((acc, [k, v]) => ({ ...acc, [k]: v }), {})
+    }
+    return all
+  }
+}
+
+/**
+ * Typed view of the settings of a single guild
+ * @export
+ * @class GuildSettings
+ *
+ * @readonly @property {string} id
+ * @property {string} LOG_CHANNEL
+ * @property {string} LFG_CHANNEL
+ * @property {string} REGULARS_CHANNEL
+ * @property {string} ARMA_CHANNEL
+ * @property {string} BMS_CHANNEL
+ * @property {string} MAIN_CHANNEL
+ * @property {string} FLIGHTS_CHANNEL
+ * @property {string} ARMA_PLAYER_ROLE
+ * @property {string} BMS_PLAYER_ROLE
+ * @property {number} NUM_PLAYERS_FOR_ALERT
+ * @property {string[]} ALLOWED_GROUPS
+ * @property {string[]} ADMIN_ROLES
+ * @property {string[]} OFFICER_ROLES
+ * @property {string[]} REGULAR_ROLES
+ * @property {string[]} PROTECTED_ROLES
+ * @property {string} PREFIX
+ * @private @property {EnvStore} _env
+ */
+export class GuildSettings {
+  public readonly id: string
+  private _env: EnvStore
+
+  /**
+   * Creates an instance of GuildSettings
+   * @param {EnvStore} env
+   * @param {string} id
+   * @memberof GuildSettings
+   */
+  constructor(env: EnvStore, id: string) {
+    this._env = env
+    this.id = id
+  }
+
+  get LOG_CHANNEL(): string {
+    return this._env.raw(this.id, 'LOG_CHANNEL')
+  }
+
+  get MAIN_CHANNEL(): string {
+    return this._env.raw(this.id, 'MAIN_CHANNEL')
+  }
+
+  get LFG_CHANNEL(): string {
+    return this._env.raw(this.id, 'LFG_CHANNEL')
+  }
+
+  get REGULARS_CHANNEL(): string {
+    return this._env.raw(this.id, 'REGULARS_CHANNEL')
+  }
+
+  get ARMA_CHANNEL(): string {
+    return this._env.raw(this.id, 'ARMA_CHANNEL')
+  }
+
+  get BMS_CHANNEL(): string {
+    return this._env.raw(this.id, 'BMS_CHANNEL')
+  }
+
+  get FLIGHTS_CHANNEL(): string {
+    return this._env.raw(this.id, 'FLIGHTS_CHANNEL')
+  }
+
+  get ARMA_PLAYER_ROLE(): string {
+    return this._env.raw(this.id, 'ARMA_PLAYER_ROLE')
+  }
+
+  get BMS_PLAYER_ROLE(): string {
+    return this._env.raw(this.id, 'BMS_PLAYER_ROLE')
+  }
+
+  get ALLOWED_GROUPS(): string[] {
+    return splitList(this._env.raw(this.id, 'ALLOWED_GROUPS'))
+  }
+
+  get ADMIN_ROLES(): string[] {
+    return splitList(this._env.raw(this.id, 'ADMIN_ROLES'))
+  }
+
+  get OFFICER_ROLES(): string[] {
+    return splitList(this._env.raw(this.id, 'OFFICER_ROLES'))
+  }
+
+  get REGULAR_ROLES(): string[] {
+    return splitList(this._env.raw(this.id, 'REGULAR_ROLES'))
+  }
+
+  get PROTECTED_ROLES(): string[] {
+    return splitList(this._env.raw(this.id, 'PROTECTED_ROLES'))
+  }
+
+  get NUM_PLAYERS_FOR_ALERT(): number {
+    return parseInt(this._env.raw(this.id, 'NUM_PLAYERS_FOR_ALERT'))
+  }
+
+  get PREFIX(): string {
+    return this._env.raw(this.id, 'PREFIX')
+  }
+}
+
+/**
+ * Splits a comma deliminated setting into its trimmed values
+ * @param {string} value
+ * @returns {string[]}
+ */
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map(v => v.trim())
+    .filter(v => v !== '')
 }
 
 export default new EnvStore()
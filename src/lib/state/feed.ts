@@ -0,0 +1,210 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { moduleLogger } from '../logger'
+import Storage from './storage'
+
+const log = moduleLogger('state')
+
+/**
+ * Type definition for the kinds of changes to the members of the primary guild
+ * @export
+ */
+export type MemberEventType = 'MEMBER_JOINED' | 'MEMBER_LEFT' | 'ROLE_ADDED' | 'ROLE_REMOVED' | 'NICKNAME_CHANGED'
+
+/**
+ * Type definition for a change to a member of the primary guild. The role fields
+ * are set for role changes along with `executorId`, the ID of who made the change if
+ * it was found in the audit logs, and the nickname fields for nickname changes.
+ * @export
+ */
+export type MemberEvent = {
+  sequence: number
+  type: MemberEventType
+  timestamp: string
+  userId: string
+  username: string
+  roleId?: string
+  roleName?: string
+  executorId?: string
+  oldNickname?: string
+  newNickname?: string
+}
+
+/**
+ * Type definition for a function that is called with each new event
+ * @export
+ */
+export type FeedListener = (event: MemberEvent) => void
+
+/**
+ * Shape of the feed when written to the storage backend
+ */
+type StoredFeed = {
+  sequence: number
+  events: MemberEvent[]
+}
+
+/**
+ * State store for the feed of member events streamed by the gRPC `Watch` call. Each event is
+ * numbered in sequence and the most recent are kept so that clients can resume after the last
+ * one they received, including across restarts when a persistent storage backend is used.
+ * @export
+ * @class FeedStore
+ * @property {number} _sequence
+ * @property {MemberEvent[]} _events
+ * @property {Set<FeedListener>} _listeners
+ * @property {Promise<void>?} _loading
+ * @property {Promise<void>?} _saving
+ * @property {boolean} _unsaved
+ */
+class FeedStore {
+  // Number of the most recent events kept for clients to resume from
+  private static readonly MAX_EVENTS: number = 1000
+
+  private _sequence: number = 0
+  private _events: MemberEvent[] = []
+  private _listeners: Set<FeedListener> = new Set()
+  private _loading?: Promise<void>
+  private _saving?: Promise<void>
+  private _unsaved: boolean = false
+
+  /**
+   * Rehydrates the sequence number and the most recent events from the storage backend
+   * @async
+   * @memberof FeedStore
+   */
+  async load() {
+    if (!this._loading) this._loading = this._restore()
+    return this._loading
+  }
+
+  /**
+   * The sequence number of the latest event
+   * @readonly
+   * @type {number}
+   * @memberof FeedStore
+   */
+  get sequence(): number {
+    return this._sequence
+  }
+
+  /**
+   * Numbers the event, keeps it and sends it to every listener. The feed is
+   * loaded first so that events published during startup continue its sequence.
+   * @async
+   * @param {Omit<MemberEvent, 'sequence' | 'timestamp'>} details
+   * @returns {Promise<MemberEvent>}
+   * @memberof FeedStore
+   */
+  async publish(details: Omit<MemberEvent, 'sequence' | 'timestamp'>): Promise<MemberEvent> {
+    await this.load()
+
+    const event: MemberEvent = { ...details, sequence: ++this._sequence, timestamp: new Date().toISOString() }
+    this._events.push(event)
+    if (this._events.length > FeedStore.MAX_EVENTS) this._events.shift()
+    this._save()
+
+    for (const listener of this._listeners) {
+      try {
+        listener(event)
+      } catch (e) {
+        log.error(`FEED_LISTENER: ${e.message}`)
+      }
+    }
+
+    return event
+  }
+
+  /**
+   * Returns the events after the sequence number, or null if some of them are no longer
+   * kept or the sequence number is ahead of the feed, meaning that events were missed
+   * @param {number} sequence
+   * @returns {(MemberEvent[] | null)}
+   * @memberof FeedStore
+   */
+  since(sequence: number): MemberEvent[] | null {
+    if (sequence > this._sequence) return null
+    if (sequence === this._sequence) return []
+
+    const oldest: number = this._events.length > 0 ? this._events[0].sequence : this._sequence + 1
+    if (sequence < oldest - 1) return null
+    return this._events.filter(e => e.sequence > sequence)
+  }
+
+  /**
+   * Calls the listener with every new event until the returned function is called
+   * @param {FeedListener} listener
+   * @returns {() => void}
+   * @memberof FeedStore
+   */
+  subscribe(listener: FeedListener): () => void {
+    this._listeners.add(listener)
+    return () => {
+      this._listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Reads the persisted feed from the storage backend
+   * @private
+   * @async
+   * @memberof FeedStore
+   */
+  private async _restore() {
+    const stored: StoredFeed | undefined = await Storage.read<StoredFeed>('feed')
+    if (!stored) return
+
+    this._sequence = stored.sequence
+    this._events = stored.events.slice(-FeedStore.MAX_EVENTS)
+    log.sys(`Restored member event feed at sequence ${this._sequence}`)
+  }
+
+  /**
+   * Marks the feed as changed and starts writing it to the storage backend unless a write is
+   * already in flight, in which case that write is followed by a single one of the latest state
+   * so that a burst of events doesn't queue a write of the whole feed for each of them
+   * @private
+   * @memberof FeedStore
+   */
+  private _save() {
+    this._unsaved = true
+    if (!this._saving) this._saving = this._flush()
+  }
+
+  /**
+   * Writes the sequence number and the kept events to the storage backend
+   * until there are no changes left that haven't been written
+   * @private
+   * @async
+   * @memberof FeedStore
+   */
+  private async _flush() {
+    while (this._unsaved) {
+      this._unsaved = false
+      const stored: StoredFeed = { sequence: this._sequence, events: [...this._events] }
+      try {
+        await Storage.write('feed', stored)
+      } catch (e) {
+        log.error(`FEED_SAVE: ${e.message}`)
+      }
+    }
+    this._saving = undefined
+  }
+}
+
+export default new FeedStore()
@@ -15,9 +15,23 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { User } from 'discord.js'
 import schedule from 'node-schedule'
 import addHour from 'date-fns/add_hours'
+import { moduleLogger } from '../logger'
+import Storage from './storage'
+
+const log = moduleLogger('state')
+
+/**
+ * Type definition for a Discord user reference stored by ID with the
+ * username cached at the time it was saved for display purposes
+ * @export
+ * @interface StoredUser
+ */
+export interface StoredUser {
+  id: string
+  username: string
+}
 
 /**
  * Type definition for a group entity for LFG
@@ -26,10 +40,12 @@ import addHour from 'date-fns/add_hours'
  */
 export interface Group {
   id: number
-  owner: User
+  guild: string
+  owner: StoredUser
   name: string
   needed?: number
-  found: User[]
+  found: StoredUser[]
+  expires: Date
 }
 
 /**
@@ -39,11 +55,13 @@ export interface Group {
  */
 export interface Flight {
   id: number
-  owner: User
+  guild: string
+  owner: StoredUser
   game: 'BMS' | 'DCS'
   time: Date
   details: string
-  found: User[]
+  found: StoredUser[]
+  expires: Date
 }
 
 /**
@@ -57,74 +75,151 @@ export enum GroupType {
 }
 
 /**
- * State store for managing the groups posted for the LFG feature
+ * Shape of the groups and flights when written to the storage backend
+ * @interface StoredGroups
+ */
+interface StoredGroups {
+  groups: Group[]
+  flights: Flight[]
+}
+
+/**
+ * State store for managing the groups posted for the LFG feature,
+ * isolated per guild by keying the groups and flights by guild ID
  * @export
  * @class GroupStore
- * @property {Map<number, Group>} _groups
+ * @property {Map<string, Map<number, Group>>} _groups
+ * @property {Map<string, Map<number, Flight>>} _flights
+ * @property {boolean} _loaded
  */
 class GroupStore {
-  private _groups: Map<number, Group> = new Map()
-  private _flights: Map<number, Flight> = new Map()
+  // Number of hours until a group or flight is removed
+  public static readonly EXPIRY_HOURS: number = 8
+
+  private _groups: Map<string, Map<number, Group>> = new Map()
+  private _flights: Map<string, Map<number, Flight>> = new Map()
+  private _loaded: boolean = false
+
+  /**
+   * Rehydrates the groups and flights from the storage backend and
+   * reschedules their expiry jobs, dropping any that expired while offline
+   * @async
+   * @memberof GroupStore
+   */
+  async load() {
+    if (this._loaded) return
+    this._loaded = true
+
+    const stored: StoredGroups | undefined = await Storage.read<StoredGroups>('groups')
+    if (!stored) return
+
+    const now = new Date()
+    for (const g of stored.groups) {
+      const group: Group = { ...g, expires: new Date(g.expires) }
+      if (group.expires > now) this.add(group, GroupType.LFG, false)
+    }
+
+    for (const f of stored.flights) {
+      const flight: Flight = { ...f, time: new Date(f.time), expires: new Date(f.expires) }
+      if (flight.expires > now) this.add(flight, GroupType.Flight, false)
+    }
+
+    const stats: StoredGroups = this._all()
+    log.sys(`Restored ${stats.groups.length} groups and ${stats.flights.length} flights`)
+    this._save()
+  }
+
+  /**
+   * Returns the date that a group or flight created now should expire
+   * @returns {Date}
+   * @memberof GroupStore
+   */
+  expiryDate(): Date {
+    return addHour(new Date(), GroupStore.EXPIRY_HOURS)
+  }
 
   /**
    * Check if the argued user has already registered either
    * a group or a pickup flight that currently exists
    * @template T
-   * @param {string} user
+   * @param {string} id
    * @param {T[]} items
    * @returns {boolean}
    * @memberof GroupStore
    */
-  userAlreadyLooking<T extends Group | Flight>(user: string, items: T[]): boolean {
+  userAlreadyLooking<T extends Group | Flight>(id: string, items: T[]): boolean {
     for (const i of items) {
-      if (i.owner.username === user) return true
+      if (i.owner.id === id) return true
     }
     return false
   }
 
   /**
-   * Adds a new group instance to the map with the name as the key
+   * Returns the ID for a new group or flight of the guild, which is one
+   * higher than the highest ID of the ones that are still active
+   * @param {string} guild
+   * @param {GroupType} t
+   * @returns {number}
+   * @memberof GroupStore
+   */
+  nextId(guild: string, t: GroupType): number {
+    const ids: number[] = [...this._items(guild, t).keys()]
+    return ids.length > 0 ? Math.max(...ids) + 1 : 1
+  }
+
+  /**
+   * Adds a new group instance to the map with the ID as the key and schedules
+   * its removal for the expiry date. Returns false without adding it if the
+   * guild already has a group with the same ID.
    * @param {Group} g
    * @param {GroupType} t
+   * @param {boolean} [save=true]
+   * @returns {boolean}
    * @memberof GroupStore
    */
-  add<T extends Group | Flight>(g: T, t: GroupType) {
-    if (t === GroupType.LFG) {
-      if (!this._groups.has(g.id)) {
-        this._groups.set(g.id, g as Group)
-        schedule.scheduleJob(`remove_group:${g.id}`, addHour(new Date(), 8), () => this.remove(g.id, GroupType.LFG))
-      }
-    } else {
-      if (!this._flights.has(g.id)) {
-        this._flights.set(g.id, g as Flight)
-        schedule.scheduleJob(`remove_group:${g.id}`, addHour(new Date(), 8), () => this.remove(g.id, GroupType.Flight))
-      }
-    }
+  add<T extends Group | Flight>(g: T, t: GroupType, save: boolean = true): boolean {
+    const items: Map<number, Group | Flight> = this._items(g.guild, t, true)
+    if (items.has(g.id)) return false
+
+    const job: string = GroupStore._jobName(g.guild, g.id, t)
+    schedule.cancelJob(job)
+    schedule.scheduleJob(job, g.expires, () => this.remove(g.guild, g.id, t))
+
+    items.set(g.id, g)
+    if (save) this._save()
+    return true
   }
 
   /**
-   * Deletes a group instance from the store once it is full
+   * Deletes a group instance from the guild's store once it is full
+   * @param {string} guild
    * @param {number} id
    * @param {GroupType} t
    * @memberof GroupStore
    */
-  remove(id: number, t: GroupType) {
-    t === GroupType.LFG ? this._groups.delete(id) : this._flights.delete(id)
+  remove(guild: string, id: number, t: GroupType) {
+    if (this._items(guild, t).delete(id)) {
+      schedule.cancelJob(GroupStore._jobName(guild, id, t))
+      this._save()
+    }
   }
 
   /**
    * Adds a new user to the argued group ID and sends
    * a message to all found users if the group is full
-   * @param {User} user
+   * @param {string} guild
+   * @param {StoredUser} user
    * @param {number} id
    * @returns {{ full: boolean, group?: Group }}
    * @memberof GroupStore
    */
-  joinGroup(user: User, id: number): { full: boolean; group?: Group } {
-    const group = this._groups.get(id)
+  joinGroup(guild: string, user: StoredUser, id: number): { full: boolean; group?: Group } {
+    const group = this._items(guild, GroupType.LFG).get(id) as Group | undefined
     if (!group) return { full: false }
 
     group.found.push(user)
+    this._save()
+
     if (group.found.length === group.needed) {
       return { full: true, group }
     }
@@ -133,35 +228,94 @@ class GroupStore {
 
   /**
    * Adds a new user to the flight group based on the argued ID
-   * @param {User} user
+   * @param {string} guild
+   * @param {StoredUser} user
    * @param {number} id
-   * @returns {boolean}
+   * @returns {{ joined: boolean, flight?: Flight }}
    * @memberof GroupStore
    */
-  joinFlight(user: User, id: number): { joined: boolean; flight?: Flight } {
-    const flight = this._flights.get(id)
+  joinFlight(guild: string, user: StoredUser, id: number): { joined: boolean; flight?: Flight } {
+    const flight = this._items(guild, GroupType.Flight).get(id) as Flight | undefined
     if (!flight) return { joined: false }
 
     flight.found.push(user)
+    this._save()
     return { joined: true, flight }
   }
 
   /**
-   * Returns the array of Group entities stored
+   * Returns the array of Group entities stored for the guild
+   * @param {string} guild
    * @returns {Group[]}
    * @memberof GroupStore
    */
-  getGroups(): Group[] {
-    return [...this._groups.values()]
+  getGroups(guild: string): Group[] {
+    return [...this._items(guild, GroupType.LFG).values()] as Group[]
   }
 
   /**
-   * Returns the array of Flight entities stored
+   * Returns the array of Flight entities stored for the guild
+   * @param {string} guild
    * @returns {Flight[]}
    * @memberof GroupStore
    */
-  getFlights(): Flight[] {
-    return [...this._flights.values()]
+  getFlights(guild: string): Flight[] {
+    return [...this._items(guild, GroupType.Flight).values()] as Flight[]
+  }
+
+  /**
+   * Returns the map of groups or flights for the guild, optionally
+   * creating it if the guild does not have one yet
+   * @private
+   * @param {string} guild
+   * @param {GroupType} t
+   * @param {boolean} [create=false]
+   * @returns {Map<number, Group | Flight>}
+   * @memberof GroupStore
+   */
+  private _items(guild: string, t: GroupType, create: boolean = false): Map<number, Group | Flight> {
+    const all: Map<string, Map<number, Group | Flight>> = t === GroupType.LFG ? this._groups : this._flights
+    const items: Map<number, Group | Flight> = all.get(guild) || new Map()
+    if (create && !all.has(guild)) all.set(guild, items)
+    return items
+  }
+
+  /**
+   * Returns the groups and flights of every guild
+   * @private
+   * @returns {StoredGroups}
+   * @memberof GroupStore
+   */
+  private _all(): StoredGroups {
+    const groups: Group[] = [...this._groups.keys()].reduce((acc, g) => [...acc, ...this.getGroups(g)], [] as Group[])
+    const flights: Flight[] = [...this._flights.keys()].reduce(
+      (acc, g) => [...acc, ...this.getFlights(g)],
+      [] as Flight[]
+    )
+    return { groups, flights }
+  }
+
+  /**
+   * Writes the current groups and flights of every guild to the storage backend
+   * @private
+   * @memberof GroupStore
+   */
+  private _save() {
+    Storage.write('groups', this._all()).catch(e => log.error(`GROUPS_SAVE: ${e.message}`))
+  }
+
+  /**
+   * Returns the name of the scheduled expiry job for a group or flight
+   * @private
+   * @static
+   * @param {string} guild
+   * @param {number} id
+   * @param {GroupType} t
+   * @returns {string}
+   * @memberof GroupStore
+   */
+  private static _jobName(guild: string, id: number, t: GroupType): string {
+    return `${t === GroupType.LFG ? 'remove_group' : 'remove_flight'}:${guild}:${id}`
   }
 }
 
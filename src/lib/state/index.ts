@@ -17,7 +17,15 @@
 
 export { default as Events, CalendarEvent } from './events'
 export { default as Routines } from './routines'
-export { default as Groups, Group, Flight, GroupType } from './groups'
+export { default as Groups, Group, Flight, GroupType, StoredUser } from './groups'
 export { default as Alarms } from './alarms'
-export { default as Env } from './environment'
+export { default as Env, SETTINGS, SettingKey, SettingType, GuildSettings } from './environment'
 export { default as Polls, PollThread, PollType, PollRule } from './polls'
+export { default as Storage } from './storage'
+export { default as Settings, SettingValidation } from './settings'
+export { default as Policies, CommandPolicy } from './policies'
+export { default as Toggles, CommandState } from './toggles'
+export { default as Pending, PendingProvision } from './pending'
+export { default as Revocations, RevocationRecord } from './revocations'
+export { default as Feed, MemberEvent, MemberEventType, FeedListener } from './feed'
+export { ENV_SCHEMA, EnvFormat, EnvVariable, validateEnvironment } from './schema'
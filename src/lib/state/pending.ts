@@ -0,0 +1,184 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import schedule from 'node-schedule'
+import addDays from 'date-fns/add_days'
+import { moduleLogger } from '../logger'
+import { RoleDiff } from '../provisioning'
+import Env from './environment'
+import Storage from './storage'
+
+const log = moduleLogger('state')
+
+/**
+ * Type definition for the role diffs provisioned for a user who isn't a member of
+ * the primary guild yet, in the order they were received, which are applied when
+ * the user joins unless they expire first
+ * @export
+ */
+export type PendingProvision = {
+  id: string
+  diffs: RoleDiff[]
+  queued: Date
+  expires: Date
+}
+
+/**
+ * Shape of the pending provisions when written to the storage backend
+ */
+type StoredPending = (Omit<PendingProvision, 'queued' | 'expires'> & { queued: string; expires: string })[]
+
+/**
+ * State store for the queue of role provisions deferred until the user joins
+ * the primary guild. The provisions of a user expire `PENDING_PROVISION_DAYS`
+ * after the latest one was queued.
+ * @export
+ * @class PendingStore
+ * @property {Map<string, PendingProvision>} _pending
+ * @property {boolean} _loaded
+ */
+class PendingStore {
+  private _pending: Map<string, PendingProvision> = new Map()
+  private _loaded: boolean = false
+
+  /**
+   * Rehydrates the pending provisions from the storage backend and
+   * reschedules their expiry jobs, dropping any that expired while offline
+   * @async
+   * @memberof PendingStore
+   */
+  async load() {
+    if (this._loaded) return
+    this._loaded = true
+
+    const stored: StoredPending | undefined = await Storage.read<StoredPending>('pending')
+    if (!stored) return
+
+    const now = new Date()
+    for (const p of stored) {
+      const pending: PendingProvision = { ...p, queued: new Date(p.queued), expires: new Date(p.expires) }
+      if (pending.expires > now) this._set(pending)
+    }
+
+    log.sys(`Restored ${this._pending.size} pending role provisions`)
+    this._save()
+  }
+
+  /**
+   * Queues the role diff for the user until they join, extending the expiry of their pending provisions
+   * @param {RoleDiff} diff
+   * @returns {PendingProvision}
+   * @memberof PendingStore
+   */
+  defer(diff: RoleDiff): PendingProvision {
+    const queued = new Date()
+    const previous: PendingProvision | undefined = this._pending.get(diff.id)
+    const pending: PendingProvision = {
+      id: diff.id,
+      diffs: [...(previous ? previous.diffs : []), { id: diff.id, assign: diff.assign, revoke: diff.revoke }],
+      queued,
+      expires: addDays(queued, Env.PENDING_PROVISION_DAYS)
+    }
+
+    this._set(pending)
+    this._save()
+    return pending
+  }
+
+  /**
+   * Removes and returns the pending provisions of the user to be applied
+   * @param {string} id
+   * @returns {(PendingProvision | null)}
+   * @memberof PendingStore
+   */
+  take(id: string): PendingProvision | null {
+    const pending: PendingProvision | undefined = this._pending.get(id)
+    if (!pending) return null
+
+    this.cancel(id)
+    return pending
+  }
+
+  /**
+   * Removes the pending provisions of the user without applying them
+   * @param {string} id
+   * @returns {boolean}
+   * @memberof PendingStore
+   */
+  cancel(id: string): boolean {
+    if (!this._pending.delete(id)) return false
+
+    schedule.cancelJob(PendingStore._jobName(id))
+    this._save()
+    return true
+  }
+
+  /**
+   * Returns all of the pending provisions, the soonest to expire first
+   * @returns {PendingProvision[]}
+   * @memberof PendingStore
+   */
+  all(): PendingProvision[] {
+    return [...this._pending.values()].sort((a, b) => a.expires.getTime() - b.expires.getTime())
+  }
+
+  /**
+   * Keeps the pending provisions of a user and schedules their removal for the expiry date
+   * @private
+   * @param {PendingProvision} pending
+   * @memberof PendingStore
+   */
+  private _set(pending: PendingProvision) {
+    const job: string = PendingStore._jobName(pending.id)
+    schedule.cancelJob(job)
+    schedule.scheduleJob(job, pending.expires, () => {
+      log.info(`PENDING_PROVISION_EXPIRED: ${pending.id}`)
+      this.cancel(pending.id)
+    })
+
+    this._pending.set(pending.id, pending)
+  }
+
+  /**
+   * Writes the pending provisions to the storage backend
+   * @private
+   * @memberof PendingStore
+   */
+  private _save() {
+    const stored: StoredPending = this.all().map(p => ({
+      ...p,
+      queued: p.queued.toISOString(),
+      expires: p.expires.toISOString()
+    }))
+
+    Storage.write('pending', stored).catch(e => log.error(`PENDING_SAVE: ${e.message}`))
+  }
+
+  /**
+   * Returns the name of the scheduled expiry job for the pending provisions of a user
+   * @private
+   * @static
+   * @param {string} id
+   * @returns {string}
+   * @memberof PendingStore
+   */
+  private static _jobName(id: string): string {
+    return `remove_pending:${id}`
+  }
+}
+
+export default new PendingStore()
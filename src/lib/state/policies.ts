@@ -0,0 +1,160 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { moduleLogger } from '../logger'
+import Storage from './storage'
+
+const log = moduleLogger('state')
+
+/**
+ * Type definition for the allow and deny rules of a command. `channels` are
+ * channel IDs or the names of channel settings, like `FLIGHTS_CHANNEL`, that
+ * the command can be sent in. Members with one of the `allowedRoles` can
+ * send the command in any channel, while `deniedUsers` and members with one
+ * of the `deniedRoles` can't run it at all. Roles are role IDs, or names as a fallback.
+ * @export
+ * @interface CommandPolicy
+ */
+export interface CommandPolicy {
+  channels?: string[]
+  deniedUsers?: string[]
+  allowedRoles?: string[]
+  deniedRoles?: string[]
+}
+
+/**
+ * Shape of the policy overrides when written to the storage backend,
+ * keyed by guild ID and then by command name
+ */
+type StoredPolicies = Record<string, Record<string, CommandPolicy>>
+
+/**
+ * State store for the policies of each command, declared when the command
+ * is added to the bot and overridden per guild at runtime by the `!policy` command
+ * @export
+ * @class PolicyStore
+ * @property {Map<string, CommandPolicy>} _declared
+ * @property {Map<string, Map<string, CommandPolicy>>} _overrides
+ * @property {boolean} _loaded
+ */
+class PolicyStore {
+  private _declared: Map<string, CommandPolicy> = new Map()
+  private _overrides: Map<string, Map<string, CommandPolicy>> = new Map()
+  private _loaded: boolean = false
+
+  /**
+   * Rehydrates the persisted policy overrides from the storage backend
+   * @async
+   * @memberof PolicyStore
+   */
+  async load() {
+    if (this._loaded) return
+    this._loaded = true
+
+    const stored: StoredPolicies | undefined = await Storage.read<StoredPolicies>('policies')
+    if (!stored) return
+
+    let count: number = 0
+    for (const guild of Object.keys(stored)) {
+      const policies: Map<string, CommandPolicy> = new Map()
+      for (const command of Object.keys(stored[guild])) {
+        policies.set(command, stored[guild][command])
+        count++
+      }
+      this._overrides.set(guild, policies)
+    }
+
+    log.sys(`Restored ${count} command policy overrides`)
+  }
+
+  /**
+   * Sets the policy that the command was added to the bot with
+   * @param {string} command
+   * @param {CommandPolicy} [policy={}]
+   * @memberof PolicyStore
+   */
+  declare(command: string, policy: CommandPolicy = {}) {
+    this._declared.set(command, policy)
+  }
+
+  /**
+   * Returns the policy of the command in the guild, preferring its override
+   * @param {string} guild
+   * @param {string} command
+   * @returns {CommandPolicy}
+   * @memberof PolicyStore
+   */
+  get(guild: string, command: string): CommandPolicy {
+    const override: CommandPolicy | undefined = (this._overrides.get(guild) || new Map()).get(command)
+    return override || this._declared.get(command) || {}
+  }
+
+  /**
+   * Returns whether the policy of the command has been overridden in the guild
+   * @param {string} guild
+   * @param {string} command
+   * @returns {boolean}
+   * @memberof PolicyStore
+   */
+  isOverridden(guild: string, command: string): boolean {
+    return (this._overrides.get(guild) || new Map()).has(command)
+  }
+
+  /**
+   * Overrides the policy of the command in the guild and persists it
+   * @param {string} guild
+   * @param {string} command
+   * @param {CommandPolicy} policy
+   * @memberof PolicyStore
+   */
+  set(guild: string, command: string, policy: CommandPolicy) {
+    if (!this._overrides.has(guild)) this._overrides.set(guild, new Map())
+    this._overrides.get(guild)!.set(command, policy)
+    this._save()
+  }
+
+  /**
+   * Removes the override of the command in the guild to use its declared policy
+   * @param {string} guild
+   * @param {string} command
+   * @returns {boolean}
+   * @memberof PolicyStore
+   */
+  reset(guild: string, command: string): boolean {
+    const removed: boolean = (this._overrides.get(guild) || new Map()).delete(command)
+    if (removed) this._save()
+    return removed
+  }
+
+  /**
+   * Writes the policy overrides of every guild to the storage backend
+   * @private
+   * @memberof PolicyStore
+   */
+  private _save() {
+    const stored: StoredPolicies = {}
+    for (const [guild, policies] of this._overrides) {
+      if (policies.size > 0) {
+        stored[guild] = [...policies.entries()].reduce((acc, [k, v]) => ({ ...acc, [k]: v }), {})
+      }
+    }
+
+    Storage.write('policies', stored).catch(e => log.error(`POLICIES_SAVE: ${e.message}`))
+  }
+}
+
+export default new PolicyStore()
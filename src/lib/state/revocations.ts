@@ -0,0 +1,137 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { moduleLogger } from '../logger'
+import Storage from './storage'
+
+const log = moduleLogger('state')
+
+/**
+ * Type definition for the roles that provisioning took away from a member when
+ * revoking all of their roles, kept so that they can be restored with `!provision restore`
+ * @export
+ */
+export type RevocationRecord = {
+  user: string
+  roles: { id: string; name: string }[]
+  revoked: Date
+}
+
+/**
+ * Shape of the revocation records when written to the storage backend,
+ * keyed by guild ID and then by user ID
+ */
+type StoredRevocations = Record<string, Record<string, Omit<RevocationRecord, 'revoked'> & { revoked: string }>>
+
+/**
+ * State store for the latest revocation of all of the roles of each member
+ * @export
+ * @class RevocationStore
+ * @property {Map<string, Map<string, RevocationRecord>>} _records
+ * @property {boolean} _loaded
+ */
+class RevocationStore {
+  private _records: Map<string, Map<string, RevocationRecord>> = new Map()
+  private _loaded: boolean = false
+
+  /**
+   * Rehydrates the revocation records from the storage backend
+   * @async
+   * @memberof RevocationStore
+   */
+  async load() {
+    if (this._loaded) return
+    this._loaded = true
+
+    const stored: StoredRevocations | undefined = await Storage.read<StoredRevocations>('revocations')
+    if (!stored) return
+
+    let count: number = 0
+    for (const guild of Object.keys(stored)) {
+      const records: Map<string, RevocationRecord> = new Map()
+      for (const user of Object.keys(stored[guild])) {
+        records.set(user, { ...stored[guild][user], revoked: new Date(stored[guild][user].revoked) })
+        count++
+      }
+      this._records.set(guild, records)
+    }
+
+    log.sys(`Restored ${count} role revocation records`)
+  }
+
+  /**
+   * Records the roles taken away from the member, replacing their previous record
+   * @param {string} guild
+   * @param {string} user
+   * @param {{ id: string, name: string }[]} roles
+   * @returns {RevocationRecord}
+   * @memberof RevocationStore
+   */
+  record(guild: string, user: string, roles: { id: string; name: string }[]): RevocationRecord {
+    const record: RevocationRecord = { user, roles: roles.map(({ id, name }) => ({ id, name })), revoked: new Date() }
+
+    if (!this._records.has(guild)) this._records.set(guild, new Map())
+    this._records.get(guild)!.set(user, record)
+    this._save()
+    return record
+  }
+
+  /**
+   * Returns the latest revocation record of the member
+   * @param {string} guild
+   * @param {string} user
+   * @returns {(RevocationRecord | null)}
+   * @memberof RevocationStore
+   */
+  get(guild: string, user: string): RevocationRecord | null {
+    return (this._records.get(guild) || new Map()).get(user) || null
+  }
+
+  /**
+   * Removes the revocation record of the member once their roles are restored
+   * @param {string} guild
+   * @param {string} user
+   * @returns {boolean}
+   * @memberof RevocationStore
+   */
+  remove(guild: string, user: string): boolean {
+    const removed: boolean = (this._records.get(guild) || new Map()).delete(user)
+    if (removed) this._save()
+    return removed
+  }
+
+  /**
+   * Writes the revocation records of every guild to the storage backend
+   * @private
+   * @memberof RevocationStore
+   */
+  private _save() {
+    const stored: StoredRevocations = {}
+    for (const [guild, records] of this._records) {
+      if (records.size > 0) {
+        stored[guild] = [...records.entries()].reduce(
+          (acc, [k, v]) => ({ ...acc, [k]: { ...v, revoked: v.revoked.toISOString() } }),
+          {}
+        )
+      }
+    }
+
+    Storage.write('revocations', stored).catch(e => log.error(`REVOCATIONS_SAVE: ${e.message}`))
+  }
+}
+
+export default new RevocationStore()
@@ -15,7 +15,7 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
  */
 
-import { Routine } from '../routine'
+import { Routine, RoutineStatus } from '../routine'
 
 /**
  * State store for subroutines used by the bot
@@ -47,6 +47,15 @@ class RoutineStore {
       this._routines.delete(id)
     }
   }
+
+  /**
+   * Returns how each of the running routines has been running by their IDs
+   * @returns {Record<string, RoutineStatus>}
+   * @memberof RoutineStore
+   */
+  statuses(): Record<string, RoutineStatus> {
+    return [...this._routines.entries()].reduce((acc, [id, r]) => ({ ...acc, [id]: r.status() }), {})
+  }
 }
 
 export default new RoutineStore()
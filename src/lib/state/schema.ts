@@ -0,0 +1,213 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { existsSync, statSync } from 'fs'
+
+/**
+ * Formats that an environment variable value can be validated against
+ * @export
+ */
+export type EnvFormat =
+  | 'string'
+  | 'id'
+  | 'ids'
+  | 'int'
+  | 'number'
+  | 'url'
+  | 'port'
+  | 'list'
+  | 'choice'
+  | 'cooldowns'
+  | 'durations'
+  | 'prefix'
+  | 'file'
+  | 'apikeys'
+  | 'loglevels'
+
+/**
+ * Type definition for an environment variable in the configuration schema
+ * @export
+ * @interface EnvVariable
+ */
+export interface EnvVariable {
+  name: string
+  format: EnvFormat
+  required?: boolean
+  choices?: string[]
+  requires?: string[]
+}
+
+/**
+ * Configuration schema of the environment variables read by the bot.
+ * Optional variables are only validated when they are set, along with
+ * the other variables that they require to also be set.
+ * @export
+ */
+export const ENV_SCHEMA: EnvVariable[] = [
+  { name: 'BOT_TOKEN', format: 'string', required: true },
+  { name: 'DISCORD_SERVER_ID', format: 'ids', required: true },
+  { name: 'DISCORD_LOG_CHANNEL', format: 'id', required: true },
+  { name: 'DISCORD_MAIN_CHANNEL', format: 'id', required: true },
+  { name: 'DISCORD_LFG_CHANNEL', format: 'id', required: true },
+  { name: 'DISCORD_FLIGHTS_CHANNEL', format: 'id', required: true },
+  { name: 'DISCORD_REGULARS_CHANNEL', format: 'id' },
+  { name: 'DISCORD_ARMA_CHANNEL', format: 'id' },
+  { name: 'DISCORD_BMS_CHANNEL', format: 'id' },
+  { name: 'DISCORD_ALLOWED_GROUPS', format: 'list', required: true },
+  { name: 'DISCORD_ARMA_PLAYER_ROLE', format: 'string' },
+  { name: 'DISCORD_BMS_PLAYER_ROLE', format: 'string', required: true },
+  { name: 'ADMIN_ROLES', format: 'list', required: true },
+  { name: 'OFFICER_ROLES', format: 'list' },
+  { name: 'REGULAR_ROLES', format: 'list' },
+  { name: 'PROTECTED_ROLES', format: 'list' },
+  { name: 'ALERT_TIMES', format: 'durations' },
+  { name: 'NUM_PLAYERS_FOR_ALERT', format: 'int' },
+  { name: 'HOURS_TO_REFRESH_FROM_FORUMS', format: 'number' },
+  { name: 'FORUMS_API_BASE', format: 'url' },
+  { name: 'FORUMS_API_KEY', format: 'string' },
+  { name: 'AUTH_API_BASE', format: 'url', required: true },
+  { name: 'AUTH_API_KEY', format: 'string', required: true },
+  { name: 'PUSHER_CLUSTER', format: 'string' },
+  { name: 'PUSHER_KEY', format: 'string' },
+  { name: 'GRPC_HOST', format: 'string' },
+  { name: 'GRPC_PORT', format: 'port', required: true },
+  { name: 'GRPC_TLS_CERT', format: 'file', requires: ['GRPC_TLS_KEY'] },
+  { name: 'GRPC_TLS_KEY', format: 'file', requires: ['GRPC_TLS_CERT'] },
+  { name: 'GRPC_TLS_CA', format: 'file', requires: ['GRPC_TLS_CERT', 'GRPC_TLS_KEY'] },
+  { name: 'GRPC_API_KEYS', format: 'apikeys' },
+  { name: 'GRPC_ALLOW_UNAUTHENTICATED', format: 'choice', choices: ['true', 'false'] },
+  { name: 'PENDING_PROVISION_DAYS', format: 'number' },
+  { name: 'HTTP_HOST', format: 'string' },
+  { name: 'HTTP_PORT', format: 'port' },
+  { name: 'API_HOST', format: 'string' },
+  { name: 'API_PORT', format: 'port' },
+  { name: 'STORAGE_BACKEND', format: 'choice', choices: ['json', 'memory'] },
+  { name: 'STORAGE_PATH', format: 'string' },
+  { name: 'RATE_LIMIT_BURST', format: 'int' },
+  { name: 'RATE_LIMIT_REFILL_SECONDS', format: 'number' },
+  { name: 'COMMAND_COOLDOWNS', format: 'cooldowns' },
+  { name: 'COMMAND_PREFIX', format: 'prefix' },
+  { name: 'LOG_LEVEL', format: 'choice', choices: ['debug', 'info', 'warn', 'error'] },
+  { name: 'LOG_LEVELS', format: 'loglevels' },
+  { name: 'LOG_FORMAT', format: 'choice', choices: ['json', 'text'] },
+  { name: 'LOG_FILE', format: 'string' },
+  { name: 'LOG_FILE_MAX_BYTES', format: 'int' },
+  { name: 'LOG_FILE_COUNT', format: 'int' }
+]
+
+/**
+ * Descriptions of the formats used in the validation errors
+ */
+const formatDescriptions: Record<EnvFormat, string> = {
+  string: 'a non-empty value',
+  id: 'a numeric Discord ID',
+  ids: 'a comma deliminated list of numeric Discord IDs',
+  int: 'a whole number',
+  number: 'a positive number',
+  url: 'an http(s) URL',
+  port: 'a port number between 1 and 65535',
+  list: 'a comma deliminated list with at least one value',
+  choice: 'one of',
+  cooldowns: 'a comma deliminated list of `<command>:<seconds>`',
+  durations: 'a comma deliminated list of `<amt> <minutes|hours|days>`',
+  prefix: 'up to 5 characters without spaces, `<`, `@` or `#`',
+  file: 'the path of an existing file',
+  apikeys: 'a comma deliminated list of `<client>:<key>`',
+  loglevels: 'a comma deliminated list of `<module>:<debug|info|warn|error>`'
+}
+
+/**
+ * Validates the environment against the configuration schema and returns
+ * an error for every variable that is missing or malformed
+ * @export
+ * @param {Record<string, string | undefined>} env
+ * @param {EnvVariable[]} [schema=ENV_SCHEMA]
+ * @returns {string[]}
+ */
+export function validateEnvironment(
+  env: Record<string, string | undefined>,
+  schema: EnvVariable[] = ENV_SCHEMA
+): string[] {
+  const errors: string[] = []
+
+  for (const variable of schema) {
+    const value: string = (env[variable.name] || '').trim()
+
+    if (value === '') {
+      if (variable.required) errors.push(`\`${variable.name}\` is required but not set`)
+      continue
+    }
+
+    if (!matchesFormat(variable, value)) {
+      const expected: string =
+        variable.format === 'choice'
+          ? `${formatDescriptions.choice} ${variable.choices!.map(c => `\`${c}\``).join(', ')}`
+          : formatDescriptions[variable.format]
+
+      errors.push(`\`${variable.name}\` must be ${expected} but was \`${value}\``)
+    }
+
+    for (const other of variable.requires || []) {
+      if ((env[other] || '').trim() === '') errors.push(`\`${variable.name}\` requires \`${other}\` to also be set`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Checks whether the non-empty value matches the format of the variable
+ * @param {EnvVariable} variable
+ * @param {string} value
+ * @returns {boolean}
+ */
+function matchesFormat(variable: EnvVariable, value: string): boolean {
+  const items: string[] = value.split(',').map(v => v.trim())
+
+  switch (variable.format) {
+    case 'string':
+      return true
+    case 'id':
+      return /^\d+$/.test(value)
+    case 'ids':
+      return items.every(i => /^\d+$/.test(i))
+    case 'int':
+      return /^\d+$/.test(value)
+    case 'number':
+      return /^\d+(\.\d+)?$/.test(value) && parseFloat(value) > 0
+    case 'url':
+      return /^https?:\/\/\S+$/.test(value)
+    case 'port':
+      return /^\d+$/.test(value) && parseInt(value) >= 1 && parseInt(value) <= 65535
+    case 'list':
+      return items.some(i => i !== '')
+    case 'choice':
+      return variable.choices!.includes(value)
+    case 'cooldowns':
+      return items.every(i => /^\S+\s*:\s*\d+(\.\d+)?$/.test(i))
+    case 'durations':
+      return items.every(i => /^\d+ (minute|hour|day)s?$/.test(i))
+    case 'prefix':
+      return /^[^\s<@#]{1,5}$/.test(value)
+    case 'file':
+      return existsSync(value) && statSync(value).isFile()
+    case 'apikeys':
+      return items.every(i => /^[^:\s]+\s*:\s*\S+$/.test(i))
+    case 'loglevels':
+      return items.every(i => /^[^:\s]+\s*:\s*(debug|info|warn|error)$/.test(i))
+  }
+}
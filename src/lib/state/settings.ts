@@ -0,0 +1,208 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { moduleLogger } from '../logger'
+import { GuildContext, RoleContext } from '../context'
+import Env, { SETTINGS, SettingKey } from './environment'
+import { ENV_SCHEMA } from './schema'
+import Storage from './storage'
+import { resolveRole } from '../permissions'
+
+const log = moduleLogger('state')
+
+/**
+ * Type definition for the result of validating a setting value
+ * @export
+ */
+export type SettingValidation = { value: string; error?: undefined } | { value?: undefined; error: string }
+
+/**
+ * Shape of the setting overrides when written to the storage backend,
+ * keyed by guild ID and then by setting name
+ */
+type StoredSettings = Record<string, Record<string, string>>
+
+/**
+ * State store for the settings overridden at runtime by the `!config` command
+ * in each guild which persists the overrides and applies them to the environment store
+ * @export
+ * @class SettingsStore
+ * @property {boolean} _loaded
+ */
+class SettingsStore {
+  private _loaded: boolean = false
+
+  /**
+   * Rehydrates the persisted overrides into the environment store
+   * @async
+   * @memberof SettingsStore
+   */
+  async load() {
+    if (this._loaded) return
+    this._loaded = true
+
+    const stored: StoredSettings | undefined = await Storage.read<StoredSettings>('settings')
+    if (!stored) return
+
+    let count: number = 0
+    for (const guild of Object.keys(stored)) {
+      for (const key of Object.keys(stored[guild])) {
+        if (this.isSetting(key)) Env.override(guild, key, stored[guild][key])
+        count++
+      }
+    }
+
+    log.sys(`Restored ${count} setting overrides`)
+  }
+
+  /**
+   * Returns whether the argued name is a setting that can be changed
+   * @param {string} key
+   * @returns {boolean}
+   * @memberof SettingsStore
+   */
+  isSetting(key: string): key is SettingKey {
+    return key in SETTINGS
+  }
+
+  /**
+   * Validates and normalizes the input for a setting against the guild. Channels
+   * and roles are stored by ID so that they keep working after being renamed.
+   * @param {GuildContext} guild
+   * @param {SettingKey} key
+   * @param {string} input
+   * @returns {SettingValidation}
+   * @memberof SettingsStore
+   */
+  validate(guild: GuildContext, key: SettingKey, input: string): SettingValidation {
+    const value: string = input.trim()
+
+    switch (SETTINGS[key].type) {
+      case 'channel': {
+        const match = /^<#(\d+)>$/.exec(value) || /^(\d+)$/.exec(value)
+        const channel = match ? guild.channel(match[1]) : null
+        if (!channel) return { error: `\`${value}\` is not a text channel in the server` }
+        return { value: channel.id }
+      }
+
+      case 'role': {
+        const role: RoleContext | null = resolveRole(guild, value)
+        if (!role) return { error: `the role \`${value}\` does not exist` }
+        return { value: role.id }
+      }
+
+      case 'roles': {
+        const names: string[] = value
+          .split(',')
+          .map(v => v.trim())
+          .filter(v => v !== '')
+
+        const roles: string[] = []
+        for (const name of names) {
+          const role: RoleContext | null = resolveRole(guild, name)
+          if (!role) return { error: `the role \`${name}\` does not exist` }
+          roles.push(role.id)
+        }
+
+        if (roles.length === 0) return { error: 'at least one role is required' }
+        return { value: roles.join(',') }
+      }
+
+      case 'prefix':
+        if (!/^[^\s<@#]{1,5}$/.test(value))
+          return { error: `\`${value}\` must be up to 5 characters without spaces, \`<\`, \`@\` or \`#\`` }
+        return { value }
+
+      default:
+        // Remaining settings are whole numbers
+        if (!/^\d+$/.test(value)) return { error: `\`${value}\` is not a whole number` }
+        return { value: parseInt(value).toString() }
+    }
+  }
+
+  /**
+   * Checks that the configured channels and roles exist in the guild
+   * and returns an actionable error for each one that does not or for
+   * a required channel that has not been configured for the guild
+   * @param {GuildContext} guild
+   * @returns {string[]}
+   * @memberof SettingsStore
+   */
+  verify(guild: GuildContext): string[] {
+    const errors: string[] = []
+    const prefix: string = Env.guild(guild.id).PREFIX
+
+    for (const key of Object.keys(SETTINGS) as SettingKey[]) {
+      const { env, type } = SETTINGS[key]
+      const raw: string = Env.raw(guild.id, key)
+      if (type === 'int' || type === 'prefix') continue
+
+      if (raw === '') {
+        const required: boolean = ENV_SCHEMA.some(v => v.name === env && v.required)
+        if (required)
+          errors.push(
+            `\`${key}\` is not configured for this server, set it with \`${prefix}config set ${key} <value>\``
+          )
+        continue
+      }
+
+      const source: string = Env.isOverridden(guild.id, key) ? 'override' : `\`${env}\``
+      const result: SettingValidation = this.validate(guild, key, raw)
+      if (result.error !== undefined) {
+        errors.push(`\`${key}\` (${source}): ${result.error}, fix with \`${prefix}config set ${key} <value>\``)
+      }
+    }
+
+    return errors
+  }
+
+  /**
+   * Overrides the setting in the guild with the validated value and persists it
+   * @param {string} guild
+   * @param {SettingKey} key
+   * @param {string} value
+   * @memberof SettingsStore
+   */
+  set(guild: string, key: SettingKey, value: string) {
+    Env.override(guild, key, value)
+    this._save()
+  }
+
+  /**
+   * Removes the override of the setting in the guild and persists the change
+   * @param {string} guild
+   * @param {SettingKey} key
+   * @returns {boolean}
+   * @memberof SettingsStore
+   */
+  reset(guild: string, key: SettingKey): boolean {
+    const removed: boolean = Env.reset(guild, key)
+    if (removed) this._save()
+    return removed
+  }
+
+  /**
+   * Writes the current overrides to the storage backend
+   * @private
+   * @memberof SettingsStore
+   */
+  private _save() {
+    Storage.write('settings', Env.overrides()).catch(e => log.error(`SETTINGS_SAVE: ${e.message}`))
+  }
+}
+
+export default new SettingsStore()
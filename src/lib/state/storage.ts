@@ -0,0 +1,44 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { StorageBackend, createStorage } from '../storage'
+import Env from './environment'
+
+let backend: StorageBackend | undefined
+
+/**
+ * Returns the storage backend, creating it on first use so that an
+ * invalid `STORAGE_BACKEND` is reported by the startup validation
+ * instead of throwing when the module is imported
+ * @returns {StorageBackend}
+ */
+function resolve(): StorageBackend {
+  if (!backend) backend = createStorage(Env.STORAGE_BACKEND, Env.STORAGE_PATH)
+  return backend
+}
+
+/**
+ * Shared persistence backend for the state stores, selected
+ * by the `STORAGE_BACKEND` and `STORAGE_PATH` variables
+ * @export
+ */
+const storage: StorageBackend = {
+  read: <T>(key: string) => resolve().read<T>(key),
+  write: <T>(key: string, value: T) => resolve().write<T>(key, value)
+}
+
+export default storage
@@ -0,0 +1,199 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { moduleLogger } from '../logger'
+import Storage from './storage'
+
+const log = moduleLogger('state')
+
+/**
+ * Type definition for whether a command is disabled in a guild, with the
+ * reason given to members that try to run it and the ID of the admin that disabled it
+ * @export
+ * @interface CommandState
+ */
+export interface CommandState {
+  disabled: boolean
+  reason?: string
+  by?: string
+}
+
+/**
+ * Shape of the command states when written to the storage backend,
+ * keyed by guild ID and then by command name
+ */
+type StoredStates = Record<string, Record<string, CommandState>>
+
+/**
+ * State store for which commands are disabled, declared when the command is
+ * added to the bot and changed per guild at runtime by the `!command` command
+ * @export
+ * @class ToggleStore
+ * @property {Map<string, boolean>} _declared
+ * @property {Map<string, string>} _aliases
+ * @property {Map<string, Map<string, CommandState>>} _overrides
+ * @property {boolean} _loaded
+ */
+class ToggleStore {
+  private _declared: Map<string, boolean> = new Map()
+  private _aliases: Map<string, string> = new Map()
+  private _overrides: Map<string, Map<string, CommandState>> = new Map()
+  private _loaded: boolean = false
+
+  /**
+   * Rehydrates the persisted command states from the storage backend
+   * @async
+   * @memberof ToggleStore
+   */
+  async load() {
+    if (this._loaded) return
+    this._loaded = true
+
+    const stored: StoredStates | undefined = await Storage.read<StoredStates>('toggles')
+    if (!stored) return
+
+    let count: number = 0
+    for (const guild of Object.keys(stored)) {
+      const states: Map<string, CommandState> = new Map()
+      for (const command of Object.keys(stored[guild])) {
+        states.set(command, stored[guild][command])
+        count++
+      }
+      this._overrides.set(guild, states)
+    }
+
+    log.sys(`Restored ${count} enabled or disabled commands`)
+  }
+
+  /**
+   * Sets whether the command is disabled when it is added to the bot
+   * and the aliases that it can also be run with
+   * @param {string} command
+   * @param {boolean} disabled
+   * @param {string[]} [aliases=[]]
+   * @memberof ToggleStore
+   */
+  declare(command: string, disabled: boolean, aliases: string[] = []) {
+    this._declared.set(command, disabled)
+    for (const name of [command, ...aliases]) this._aliases.set(name.toLowerCase(), command)
+  }
+
+  /**
+   * Returns the name of the command with the case insensitive name or alias, or null if there is none
+   * @param {string} name
+   * @returns {(string | null)}
+   * @memberof ToggleStore
+   */
+  resolve(name: string): string | null {
+    return this._aliases.get(name.toLowerCase()) || null
+  }
+
+  /**
+   * Returns each name and alias of the commands with the name of the command it runs
+   * @returns {[string, string][]}
+   * @memberof ToggleStore
+   */
+  aliases(): [string, string][] {
+    return [...this._aliases.entries()]
+  }
+
+  /**
+   * Returns the names of every command added to the bot
+   * @returns {string[]}
+   * @memberof ToggleStore
+   */
+  commands(): string[] {
+    return [...this._declared.keys()]
+  }
+
+  /**
+   * Returns the state of the command in the guild, preferring the one set at runtime
+   * @param {string} guild
+   * @param {string} command
+   * @returns {CommandState}
+   * @memberof ToggleStore
+   */
+  get(guild: string, command: string): CommandState {
+    const override: CommandState | undefined = (this._overrides.get(guild) || new Map()).get(command)
+    return override || { disabled: this._declared.get(command) || false }
+  }
+
+  /**
+   * Returns whether the command was disabled when it was added to the bot
+   * @param {string} command
+   * @returns {boolean}
+   * @memberof ToggleStore
+   */
+  isDeclaredDisabled(command: string): boolean {
+    return this._declared.get(command) || false
+  }
+
+  /**
+   * Disables the command in the guild and persists it
+   * @param {string} guild
+   * @param {string} command
+   * @param {string} by
+   * @param {string} [reason]
+   * @memberof ToggleStore
+   */
+  disable(guild: string, command: string, by: string, reason?: string) {
+    this._set(guild, command, { disabled: true, reason, by })
+  }
+
+  /**
+   * Enables the command in the guild and persists it
+   * @param {string} guild
+   * @param {string} command
+   * @param {string} by
+   * @memberof ToggleStore
+   */
+  enable(guild: string, command: string, by: string) {
+    this._set(guild, command, { disabled: false, by })
+  }
+
+  /**
+   * Replaces the state of the command in the guild
+   * @private
+   * @param {string} guild
+   * @param {string} command
+   * @param {CommandState} state
+   * @memberof ToggleStore
+   */
+  private _set(guild: string, command: string, state: CommandState) {
+    if (!this._overrides.has(guild)) this._overrides.set(guild, new Map())
+    this._overrides.get(guild)!.set(command, state)
+    this._save()
+  }
+
+  /**
+   * Writes the command states of every guild to the storage backend
+   * @private
+   * @memberof ToggleStore
+   */
+  private _save() {
+    const stored: StoredStates = {}
+    for (const [guild, states] of this._overrides) {
+      if (states.size > 0) {
+        stored[guild] = [...states.entries()].reduce((acc, [k, v]) => ({ ...acc, [k]: v }), {})
+      }
+    }
+
+    Storage.write('toggles', stored).catch(e => log.error(`TOGGLES_SAVE: ${e.message}`))
+  }
+}
+
+export default new ToggleStore()
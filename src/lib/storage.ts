@@ -0,0 +1,165 @@
+/*
+ * Copyright (C) 2020  United Operations
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { promises as fs } from 'fs'
+import { join } from 'path'
+
+/**
+ * Implementable interface for persistence layers that the state stores
+ * are able to save their contents to and rehydrate from
+ * @export
+ * @interface StorageBackend
+ */
+export interface StorageBackend {
+  read<T>(key: string): Promise<T | undefined>
+  write<T>(key: string, value: T): Promise<void>
+}
+
+/**
+ * Storage backend that only holds values for the lifetime of the process
+ * @export
+ * @class MemoryStorage
+ * @implements StorageBackend
+ * @property {Map<string, string>} _values
+ */
+export class MemoryStorage implements StorageBackend {
+  private _values: Map<string, string> = new Map()
+
+  /**
+   * Returns the deserialized value stored under the key
+   * @template T
+   * @param {string} key
+   * @returns {Promise<T | undefined>}
+   * @memberof MemoryStorage
+   */
+  async read<T>(key: string): Promise<T | undefined> {
+    const value = this._values.get(key)
+    return value === undefined ? undefined : JSON.parse(value)
+  }
+
+  /**
+   * Serializes and stores the value under the key
+   * @template T
+   * @param {string} key
+   * @param {T} value
+   * @memberof MemoryStorage
+   */
+  async write<T>(key: string, value: T) {
+    this._values.set(key, JSON.stringify(value))
+  }
+}
+
+/**
+ * Storage backend that keeps a JSON document on disk for each key
+ * in the configured directory. Writes go to a temporary file first and
+ * are renamed into place so a crash never leaves a partial document.
+ * @export
+ * @class JsonFileStorage
+ * @implements StorageBackend
+ * @property {string} _dir
+ * @property {Map<string, Promise<void>>} _pending
+ */
+export class JsonFileStorage implements StorageBackend {
+  private _dir: string
+  private _pending: Map<string, Promise<void>> = new Map()
+
+  /**
+   * Creates an instance of JsonFileStorage
+   * @param {string} dir
+   * @memberof JsonFileStorage
+   */
+  constructor(dir: string) {
+    this._dir = dir
+  }
+
+  /**
+   * Reads and parses the document for the key if it exists
+   * @template T
+   * @param {string} key
+   * @returns {Promise<T | undefined>}
+   * @memberof JsonFileStorage
+   */
+  async read<T>(key: string): Promise<T | undefined> {
+    try {
+      const contents: string = await fs.readFile(this._path(key), 'utf8')
+      return JSON.parse(contents)
+    } catch (e) {
+      if (e.code === 'ENOENT') return undefined
+      throw e
+    }
+  }
+
+  /**
+   * Writes the value as the document for the key, queued behind
+   * any write already in flight for the same key
+   * @template T
+   * @param {string} key
+   * @param {T} value
+   * @memberof JsonFileStorage
+   */
+  write<T>(key: string, value: T): Promise<void> {
+    const previous: Promise<void> = this._pending.get(key) || Promise.resolve()
+    const next: Promise<void> = previous.catch(() => {}).then(() => this._write(key, JSON.stringify(value, null, 2)))
+
+    this._pending.set(key, next)
+    return next
+  }
+
+  /**
+   * Performs the atomic write of the serialized document
+   * @private
+   * @async
+   * @param {string} key
+   * @param {string} contents
+   * @memberof JsonFileStorage
+   */
+  private async _write(key: string, contents: string) {
+    const tmp: string = `${this._path(key)}.tmp`
+    await fs.mkdir(this._dir, { recursive: true })
+    await fs.writeFile(tmp, contents, 'utf8')
+    await fs.rename(tmp, this._path(key))
+  }
+
+  /**
+   * Returns the file path for the document of the key
+   * @private
+   * @param {string} key
+   * @returns {string}
+   * @memberof JsonFileStorage
+   */
+  private _path(key: string): string {
+    return join(this._dir, `${key}.json`)
+  }
+}
+
+/**
+ * Creates the storage backend for the argued type name
+ * @export
+ * @param {string} type
+ * @param {string} path
+ * @returns {StorageBackend}
+ */
+export function createStorage(type: string, path: string): StorageBackend {
+  switch (type) {
+    case 'memory':
+      return new MemoryStorage()
+    case 'json':
+      return new JsonFileStorage(path)
+    default:
+      throw new Error(`unknown storage backend '${type}'`)
+  }
+}
@@ -24,7 +24,7 @@ resource "null_resource" "docker" {
     inline = [
       "echo ${var.ssh_password} | sudo -S docker pull ${var.docker_image_name}",
       "sudo docker stop $(sudo docker ps -a -q)",
-      "sudo docker run --rm -d -p 50051:50051/tcp ${var.docker_image_name}",
+      "sudo docker run --rm -d -p 50051:50051/tcp -p 8080:8080/tcp -v /var/lib/uo-discord-bot:/bot/data ${var.docker_image_name}",
       "sudo docker rmi $(sudo docker images -q | awk 'FNR == 2')",
     ]
   }